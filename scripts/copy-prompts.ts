@@ -0,0 +1,32 @@
+/**
+ * Copies the prompt templates (`src/prompts/<agent>/<version>/*.md`) into
+ * `dist/prompts/`, next to the compiled loader, which reads them relative to
+ * its own location. `tsc` only emits the TypeScript files.
+ *
+ * Usage:
+ *   tsx scripts/copy-prompts.ts   (run by `npm run build`)
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+/** Main execution function */
+function main() {
+  const sourceDir = path.join(process.cwd(), 'src', 'prompts');
+  const targetDir = path.join(process.cwd(), 'dist', 'prompts');
+
+  let copied = 0;
+  fs.cpSync(sourceDir, targetDir, {
+    recursive: true,
+    filter: (source) => {
+      if (fs.statSync(source).isDirectory()) return true;
+      if (!source.endsWith('.md')) return false;
+      copied++;
+      return true;
+    },
+  });
+
+  console.log(`Copied ${copied} prompt templates to ${path.relative(process.cwd(), targetDir)}`);
+}
+
+main();
@@ -6,28 +6,24 @@
  * and provides a standard interface for derived agents.
  */
 
-import OpenAI from 'openai';
 import { config } from '../config/index.js';
-import type { AgentConfig } from '../types/index.js';
+import type { z } from 'zod';
+import {
+  createProvider,
+  defaultModelFor,
+  addUsage,
+  emptyUsage,
+  getResponseCache,
+  servedModelFor,
+  usageFromResponse,
+  LLMProviderError,
+} from '../llm/index.js';
+import type { LLMMessage, LLMProvider, LLMRequest, LLMResponse } from '../llm/index.js';
+import type { AgentConfig, AgentSettings, TokenUsage } from '../types/index.js';
+import { formatZodError } from './schemas.js';
+import type { PromptTemplate } from '../prompts/index.js';
 
-/**
- * Represents a message sent to the LLM.
- */
-export interface LLMMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
-
-/**
- * Represents a response from the LLM.
- */
-export interface LLMResponse {
-  content: string;
-  usage?: {
-    input_tokens: number;
-    output_tokens: number;
-  };
-}
+export type { LLMMessage, LLMResponse } from '../llm/index.js';
 
 /**
  * Abstract base class for LLM agents.
@@ -35,39 +31,79 @@ export interface LLMResponse {
 export abstract class BaseAgent {
   protected name: string;
   protected config: AgentConfig;
-  private openai?: OpenAI;
+  protected prompt?: PromptTemplate;       // Versioned prompt templates, if the agent uses them
+  private provider: LLMProvider;
 
   /**
-   * Initialize the agent with a name and optional configuration overrides.
-   * Sets up the OpenAI client if OpenAI is the selected provider.
+   * Initialize the agent with a name and its settings from `config.agents`.
+   * Resolves the provider from the agent setting or `config.llm.provider`,
+   * and the model from the agent setting or the provider's default model.
    * 
    * @param name Agent name
-   * @param agentConfig Optional overrides for agent configuration
+   * @param settings Per-agent provider, model, fallback model and sampling settings
    */
-  constructor(name: string, agentConfig: Partial<AgentConfig> = {}) {
+  constructor(name: string, settings: AgentSettings = {}) {
     this.name = name;
 
-    // Initialize OpenAI client using API key from config
-    this.openai = new OpenAI({
-      apiKey: config.llm.openai.apiKey,
-    });
+    const provider = settings.provider ?? config.llm.provider;
 
-    // Merge default config with any overrides provided
     this.config = {
       name,
-      model: config.llm.openai.model,
-      temperature: 0.3,
-      max_tokens: 4000,
-      ...agentConfig,
+      provider,
+      model: settings.model || defaultModelFor(provider),
+      fallback_model: settings.fallbackModel || undefined,
+      temperature: settings.temperature ?? 0.3,
+      max_tokens: settings.maxTokens ?? 4000,
     };
+
+    this.provider = createProvider(provider);
+  }
+
+  /**
+   * Model this agent calls (used for logging and cost accounting).
+   */
+  get model(): string {
+    return this.config.model;
+  }
+
+  /**
+   * Version of the prompt templates this agent renders.
+   * Part of the response cache key and stamped on everything the agent produces.
+   */
+  get promptVersion(): string {
+    return this.prompt?.version ?? 'inline';
+  }
+
+  /**
+   * Model retried when a call to `model` fails, if configured.
+   */
+  get fallbackModel(): string | undefined {
+    return this.config.fallback_model;
+  }
+
+  /**
+   * Token usage and estimated cost of a response, billed against the model
+   * that served it (this agent's model, or its fallback model, after aliases).
+   *
+   * @param response Response returned by callLLM
+   * @returns Usage record for a single call
+   */
+  protected usageOf(response: LLMResponse): TokenUsage {
+    const model = response.fallback && this.config.fallback_model ? this.config.fallback_model : this.config.model;
+    return usageFromResponse(servedModelFor(this.config.provider, model), response);
   }
 
   /**
    * Send messages to the LLM and return its response.
-   * Chooses the appropriate provider internally (currently OpenAI).
+   * Dispatches to the provider selected for this agent. If the call still
+   * fails after the provider's retries and a fallback model is configured,
+   * it is repeated once with the fallback model (authentication errors excepted).
+   * Responses are served from / written to the shared response cache unless
+   * it is disabled, `config.llm.cache.bypass` is set, or `bypass_cache` is passed.
    * 
    * @param messages Array of messages to send to the LLM
-   * @param options Optional overrides for temperature, max tokens, and JSON mode
+   * @param options Optional overrides for temperature, max tokens, JSON mode, caching
+   *                and the sample index when sampling the same prompt repeatedly
    * @returns Response from the LLM
    */
   protected async callLLM(
@@ -76,58 +112,135 @@ export abstract class BaseAgent {
       temperature?: number;
       max_tokens?: number;
       json_mode?: boolean;
+      bypass_cache?: boolean;
+      sample?: number;
     } = {}
   ): Promise<LLMResponse> {
-    const temperature = options.temperature ?? this.config.temperature;
-    const max_tokens = options.max_tokens ?? this.config.max_tokens;
+    let jsonMode = options.json_mode;
 
-    if (this.openai) {
-      return this.callOpenAI(messages, temperature, max_tokens, options.json_mode);
-    } else {
-      throw new Error('No LLM provider initialized');
+    // Backends without a native JSON mode get the requirement in the prompt instead
+    if (jsonMode && !this.provider.capabilities.jsonMode) {
+      messages = this.withJSONInstruction(messages);
+      jsonMode = false;
     }
+
+    const request: LLMRequest = {
+      model: this.config.model,
+      messages,
+      temperature: options.temperature ?? this.config.temperature,
+      max_tokens: options.max_tokens ?? this.config.max_tokens,
+      json_mode: jsonMode,
+      ...(options.sample !== undefined && { sample: options.sample }),
+    };
+
+    const fallbackModel = this.config.fallback_model;
+    try {
+      return await this.complete(request, options.bypass_cache);
+    } catch (error) {
+      const canFallBack = error instanceof LLMProviderError && error.kind !== 'authentication';
+      if (!fallbackModel || fallbackModel === request.model || !canFallBack) {
+        throw error;
+      }
+
+      console.warn(`${this.name}: ${request.model} failed (${error.message}); retrying with ${fallbackModel}`);
+      const response = await this.complete({ ...request, model: fallbackModel }, options.bypass_cache);
+      return { ...response, fallback: true };
+    }
+  }
+
+  /**
+   * Run one request through the response cache and the provider.
+   */
+  private async complete(request: LLMRequest, bypassCache?: boolean): Promise<LLMResponse> {
+    const cache = getResponseCache();
+    if (!cache.enabled) {
+      return this.provider.complete(request);
+    }
+
+    const key = cache.keyFor(request, this.promptVersion, this.provider.name);
+    if (!bypassCache && !config.llm.cache.bypass) {
+      const cached = await cache.get(key);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const response = await this.provider.complete(request);
+    await cache.set(key, response);
+    return response;
   }
 
   /**
-   * Internal method to call OpenAI's Chat Completions API.
+   * Append a prompt-only JSON instruction to the system message
+   * (or add one) for providers that cannot enforce JSON output.
+   */
+  private withJSONInstruction(messages: LLMMessage[]): LLMMessage[] {
+    const instruction = 'Respond with a single valid JSON object only. Do not wrap it in markdown or add commentary.';
+    const systemIndex = messages.findIndex((m) => m.role === 'system');
+
+    if (systemIndex === -1) {
+      return [{ role: 'system', content: instruction }, ...messages];
+    }
+
+    return messages.map((m, i) =>
+      i === systemIndex ? { ...m, content: `${m.content}\n\n${instruction}` } : m
+    );
+  }
+
+  /**
+   * Call the LLM expecting JSON that matches `schema`.
+   * If the response is not valid JSON or does not match the schema, the model is
+   * re-prompted with the validation errors, up to `config.processing.maxRepairAttempts` times.
    * 
    * @param messages Messages to send
-   * @param temperature Sampling temperature
-   * @param max_tokens Maximum tokens to generate
-   * @param json_mode If true, expects the response in JSON format
-   * @returns LLMResponse object with content and optional usage info
+   * @param schema Zod schema for the expected response
+   * @param options Optional overrides passed to callLLM
+   * @returns Parsed data, usage across all attempts, and the errors that triggered repairs
    */
-  private async callOpenAI(
+  protected async callLLMForJSON<T>(
     messages: LLMMessage[],
-    temperature: number,
-    max_tokens: number,
-    json_mode?: boolean
-  ): Promise<LLMResponse> {
-    const response = await this.openai!.chat.completions.create({
-      model: this.config.model,
-      max_tokens,
-      temperature,
-      messages: messages.map((m) => ({
-        role: m.role,
-        content: m.content,
-      })),
-      ...(json_mode && { response_format: { type: 'json_object' } }),
-    });
-
-    const choice = response.choices[0];
-    if (!choice.message.content) {
-      throw new Error('Empty response from OpenAI');
-    }
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options: { temperature?: number; max_tokens?: number; sample?: number } = {}
+  ): Promise<{ data: T; usage: TokenUsage; repairErrors: string[] }> {
+    const maxRepairs = config.processing.maxRepairAttempts;
+    const repairErrors: string[] = [];
+    let usage = emptyUsage();
+    let conversation = messages;
 
-    return {
-      content: choice.message.content,
-      usage: response.usage
-        ? {
-            input_tokens: response.usage.prompt_tokens,
-            output_tokens: response.usage.completion_tokens,
-          }
-        : undefined,
-    };
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.callLLM(conversation, { ...options, json_mode: true });
+      usage = addUsage(usage, this.usageOf(response));
+
+      let problem: string;
+      try {
+        const result = schema.safeParse(this.parseJSON<unknown>(response.content));
+        if (result.success) {
+          return { data: result.data, usage, repairErrors };
+        }
+        problem = formatZodError(result.error);
+      } catch (error) {
+        problem = error instanceof Error ? error.message : String(error);
+      }
+
+      if (attempt >= maxRepairs) {
+        throw new Error(
+          `${this.name}: response failed validation after ${attempt} repair attempt(s): ${problem}`
+        );
+      }
+
+      console.warn(`${this.name}: invalid response, requesting repair (${attempt + 1}/${maxRepairs}): ${problem}`);
+      repairErrors.push(problem);
+      conversation = [
+        ...conversation,
+        { role: 'assistant', content: response.content },
+        {
+          role: 'user',
+          content:
+            `Your previous response was invalid: ${problem}\n\n` +
+            'Return the complete corrected JSON in the required format. JSON only.',
+        },
+      ];
+    }
   }
 
   /**
@@ -0,0 +1,80 @@
+/**
+ * Self-consistency
+ *
+ * Combines K independent samples of an extraction into one result whose
+ * confidence reflects how often each item was extracted. The calibrated
+ * confidence blends the fraction of samples containing the item with the
+ * model's own (mean) confidence, weighted by
+ * `config.selfConsistency.agreementWeight`. The self-reported score is kept
+ * as `metadata.raw_confidence`.
+ */
+
+import { config } from '../config/index.js';
+
+/**
+ * Merge samples of extracted items.
+ *
+ * @param samples - Items extracted by each sample
+ * @param keyOf - Identity of an item across samples
+ * @returns One item per key, with calibrated confidence and
+ *          `metadata.raw_confidence`, `metadata.agreement` and `metadata.samples`
+ */
+export function aggregateSamples<T extends { confidence: number; metadata?: Record<string, any> }>(
+  samples: T[][],
+  keyOf: (item: T) => string
+): T[] {
+  const { agreementWeight, minAgreement } = config.selfConsistency;
+  const occurrences = new Map<string, T[]>();
+
+  for (const sample of samples) {
+    // Count each item at most once per sample
+    const seen = new Map<string, T>();
+    for (const item of sample) {
+      const key = keyOf(item);
+      const previous = seen.get(key);
+      if (!previous || item.confidence > previous.confidence) {
+        seen.set(key, item);
+      }
+    }
+
+    for (const [key, item] of seen) {
+      occurrences.set(key, [...(occurrences.get(key) ?? []), item]);
+    }
+  }
+
+  const merged: T[] = [];
+  for (const items of occurrences.values()) {
+    const agreement = items.length / samples.length;
+    if (agreement < minAgreement) continue;
+
+    const rawConfidence = items.reduce((sum, item) => sum + item.confidence, 0) / items.length;
+    const best = items.reduce((a, b) => (b.confidence > a.confidence ? b : a));
+    const confidence = agreementWeight * agreement + (1 - agreementWeight) * rawConfidence;
+
+    merged.push({
+      ...best,
+      confidence: round(confidence),
+      metadata: {
+        ...best.metadata,
+        raw_confidence: round(rawConfidence),
+        agreement: round(agreement),
+        samples: samples.length,
+      },
+    });
+  }
+
+  return merged;
+}
+
+/**
+ * Normalize a name for matching items across samples.
+ */
+export function sampleKey(...parts: string[]): string {
+  return parts
+    .map((part) => part.toLowerCase().trim().replace(/\s+/g, ' ').replace(/[^\w\s-]/g, ''))
+    .join('|');
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
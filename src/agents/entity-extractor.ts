@@ -7,8 +7,15 @@
  */
 
 import { BaseAgent } from './base.js';
-import type { ExtractedEntity, Paper } from '../types/index.js';
+import type { ExtractedEntity, Paper, TokenUsage } from '../types/index.js';
 import { config } from '../config/index.js';
+import { EntityEnvelopeSchema, ExtractedEntitySchema, mergeValidationReports, partitionValid } from './schemas.js';
+import type { ValidationReport } from './schemas.js';
+import { aggregateSamples, sampleKey } from './consistency.js';
+import type { LLMMessage } from './base.js';
+import { addUsage, emptyUsage } from '../llm/index.js';
+import { loadPromptTemplate, renderTemplate } from '../prompts/index.js';
+import type { PromptTemplate } from '../prompts/index.js';
 
 /**
  * Input format for entity extraction.
@@ -16,6 +23,7 @@ import { config } from '../config/index.js';
 interface EntityExtractionInput {
   paper: Paper;
   text: string; // Full text or specific section to analyze
+  knownEntities?: ExtractedEntity[]; // Entities already extracted from earlier chunks
 }
 
 /**
@@ -23,117 +31,107 @@ interface EntityExtractionInput {
  */
 interface EntityExtractionOutput {
   entities: ExtractedEntity[];
+  usage: TokenUsage;  // Tokens and estimated cost of the LLM call(s)
+  validation: ValidationReport;  // Repairs and dropped items
 }
 
 /**
  * Agent that extracts structured entities from papers using a language model.
  */
 export class EntityExtractorAgent extends BaseAgent {
+  protected prompt: PromptTemplate;
+
   constructor() {
     super('EntityExtractor', config.agents.entityExtraction);
+    this.prompt = loadPromptTemplate('entity-extraction', config.agents.entityExtraction.promptVersion);
   }
 
   /**
    * Main entry point for entity extraction.
    * Sends the paper content to the LLM and returns structured entities.
+   * With self-consistency enabled (`config.selfConsistency.samples` > 1) the
+   * prompt is sampled K times and confidence is derived from agreement.
    * 
    * @param input Paper and text to analyze
-   * @returns Extracted entities with normalized confidence and metadata
+   * @returns Validated entities with normalized confidence and metadata
    */
   async process(input: EntityExtractionInput): Promise<EntityExtractionOutput> {
-    const { paper, text } = input;
+    const { paper, text, knownEntities } = input;
+    const { samples, temperature } = config.selfConsistency;
 
     // Construct prompts for the LLM
-    const systemPrompt = this.getSystemPrompt();
-    const userPrompt = this.getUserPrompt(paper, text);
-
-    // Call LLM and get response
-    const response = await this.callLLM([
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt },
-    ]);
-
-    // Parse JSON response
-    const parsed = this.parseJSON<{ entities: ExtractedEntity[] }>(response.content);
-    
-    // Normalize entities (ensure confidence is 0-1 and metadata exists)
-    const entities = parsed.entities.map((entity) => ({
-      ...entity,
-      confidence: Math.max(0, Math.min(1, entity.confidence || 0.5)),
-      metadata: entity.metadata || {},
-    }));
-
-    return { entities };
+    const messages: LLMMessage[] = [
+      { role: 'system', content: this.getSystemPrompt() },
+      { role: 'user', content: this.getUserPrompt(paper, text, knownEntities) },
+    ];
+
+    if (samples <= 1) {
+      return this.extractOnce(messages);
+    }
+
+    const runs: EntityExtractionOutput[] = [];
+    for (let sample = 0; sample < samples; sample++) {
+      runs.push(await this.extractOnce(messages, { temperature, sample }));
+    }
+
+    return {
+      entities: aggregateSamples(runs.map((run) => run.entities), (e) => sampleKey(e.type, e.name)),
+      usage: runs.reduce((total, run) => addUsage(total, run.usage), emptyUsage()),
+      validation: mergeValidationReports(runs.map((run) => run.validation)),
+    };
+  }
+
+  /**
+   * Run one extraction call and validate its entities.
+   */
+  private async extractOnce(
+    messages: LLMMessage[],
+    options: { temperature?: number; sample?: number } = {}
+  ): Promise<EntityExtractionOutput> {
+    // Call LLM and validate the response envelope (re-prompting on structural errors)
+    const { data, usage, repairErrors } = await this.callLLMForJSON(messages, EntityEnvelopeSchema, options);
+
+    // Validate each entity, coercing near-misses and dropping invalid ones
+    const { valid: entities, dropped } = partitionValid(data.entities, ExtractedEntitySchema);
+    if (dropped.length > 0) {
+      console.warn(`Dropped ${dropped.length} invalid entities`);
+    }
+
+    return {
+      entities,
+      usage,
+      validation: { repair_attempts: repairErrors.length, repair_errors: repairErrors, dropped },
+    };
   }
 
   /**
    * Returns the system-level prompt describing the extraction rules and entity types.
    */
   private getSystemPrompt(): string {
-    return `You are an expert academic research analyst specializing in computer graphics, 3D reconstruction, and neural rendering. Your task is to extract structured entities from research papers about Gaussian Splatting and related techniques.
-
-ENTITY TYPES TO EXTRACT:
-
-1. concept: High-level ideas, theories, or paradigms
-2. method: Specific algorithms or approaches
-3. technique: Implementation strategies or technical tricks
-4. dataset: Benchmark datasets or data sources
-5. metric: Evaluation measures
-6. challenge: Problems or limitations being addressed
-7. application: Use cases or domains
-8. result: Quantitative outcomes or achievements
-
-EXTRACTION GUIDELINES:
-
-- Extract entities central to the paper's contribution
-- Provide precise names (use paper terminology)
-- Include a brief description explaining the entity's role
-- Extract supporting context (quote or paraphrase)
-- Assign confidence scores (0.0-1.0)
-- Avoid generic terms like "algorithm" or "method" without specifics
-- Focus on technical substance
-
-OUTPUT FORMAT: Valid JSON only.`;
+    return this.prompt.system;
   }
 
   /**
    * Constructs the user-level prompt including paper details and text to analyze.
-   * Truncates text if too long to keep it within LLM limits.
+   * Truncates text if too long to keep it within LLM limits. When extracting
+   * chunk by chunk, entities found in earlier chunks are listed after the text
+   * so the model reuses their names.
    */
-  private getUserPrompt(paper: Paper, text: string): string {
-    const maxLength = 15000;
+  private getUserPrompt(paper: Paper, text: string, knownEntities: ExtractedEntity[] = []): string {
+    const maxLength = config.extraction.singleCallMaxChars;
     const truncatedText = text.length > maxLength 
       ? text.substring(0, maxLength) + '\n\n[Text truncated...]'
       : text;
 
-    return `Extract entities from this paper:
-
-PAPER TITLE: ${paper.title}
-
-PAPER ABSTRACT:
-${paper.abstract || 'Not available'}
-
-PAPER TEXT:
-${truncatedText}
-
-Extract all relevant entities and return them in this JSON format:
-
-{
-  "entities": [
-    {
-      "name": "Entity Name",
-      "type": "concept|method|technique|dataset|metric|challenge|application|result",
-      "description": "Brief description of what this entity is and its role in the paper",
-      "confidence": 0.9,
-      "context": "Supporting quote or context from the paper",
-      "metadata": {
-        "section": "Introduction|Methods|Results|etc",
-        "any_other_relevant_info": "value"
-      }
-    }
-  ]
-}
+    const knownList = knownEntities.length > 0
+      ? '\n\nENTITIES ALREADY EXTRACTED FROM EARLIER SECTIONS (reuse these exact names; only return them again if this text adds information):\n' +
+        knownEntities.map((e) => `- ${e.name} (${e.type})`).join('\n')
+      : '';
 
-Focus on extracting 10-30 of the most important entities. Prioritize quality over quantity.`;
+    return renderTemplate(this.prompt.user, {
+      title: paper.title,
+      abstract: paper.abstract || 'Not available',
+      text: truncatedText + knownList,
+    });
   }
 }
@@ -0,0 +1,213 @@
+/**
+ * Normalization Agent
+ *
+ * Canonicalizes newly extracted entities against the nodes already in the
+ * graph. For each entity the LLM sees candidate nodes of the same type (found
+ * by fuzzy name and alias matching) plus the other new entities of that type,
+ * and decides whether the entity is new or an alias of one of them, so that
+ * "3DGS", "3D Gaussian Splatting" and "Gaussian Splatting (3DGS)" end up as
+ * one node.
+ */
+
+import { BaseAgent } from './base.js';
+import type { ExtractedEntity, NodeType, NormalizationDecision, Paper, TokenUsage } from '../types/index.js';
+import { config } from '../config/index.js';
+import { NormalizationDecisionSchema, NormalizationEnvelopeSchema, partitionValid } from './schemas.js';
+import type { DroppedItem, ValidationReport } from './schemas.js';
+import { loadPromptTemplate, renderTemplate } from '../prompts/index.js';
+import type { PromptTemplate } from '../prompts/index.js';
+import { addUsage, emptyUsage } from '../llm/index.js';
+
+/**
+ * An existing node offered as a possible canonical form.
+ */
+export interface NormalizationCandidate {
+  id: string;
+  name: string;
+  type: NodeType;
+  description?: string;
+  aliases: string[];
+}
+
+/**
+ * Where an entity resolved to: an existing node or another new entity.
+ */
+export type AliasTarget =
+  | { nodeId: string; name: string }
+  | { entityIndex: number };
+
+/**
+ * Input data for the NormalizationAgent
+ */
+interface NormalizationInput {
+  paper: Paper;
+  entities: ExtractedEntity[];  // Newly extracted entities
+  candidates: NormalizationCandidate[][];  // Candidate nodes per entity (aligned with `entities`)
+}
+
+/**
+ * Output from the NormalizationAgent
+ */
+interface NormalizationOutput {
+  aliasOf: Array<AliasTarget | undefined>;  // Aligned with the input; undefined means new
+  decisions: NormalizationDecision[];  // Raw decisions, for logging
+  usage: TokenUsage;  // Tokens and estimated cost of the LLM call(s)
+  validation: ValidationReport;  // Repairs and dropped items
+}
+
+/**
+ * NormalizationAgent
+ *
+ * Decides, per node type and in batches of `config.agents.normalization.batchSize`,
+ * which new entities are aliases. Alias decisions below
+ * `config.agents.normalization.minConfidence` are treated as new entities.
+ */
+export class NormalizationAgent extends BaseAgent {
+  protected prompt: PromptTemplate;
+
+  constructor() {
+    super('Normalizer', config.agents.normalization);
+    this.prompt = loadPromptTemplate('normalization', config.agents.normalization.promptVersion);
+  }
+
+  /**
+   * Decide which entities are aliases.
+   *
+   * Steps:
+   *   1. Group entities by type and split the groups into batches
+   *   2. Skip batches with nothing to compare against
+   *   3. Call the LLM with the candidates and new entities of the batch
+   *   4. Translate batch-local keys back to nodes and entity indices
+   *
+   * @param input Paper, entities and their candidate nodes
+   * @returns One alias target (or undefined) per input entity
+   */
+  async process(input: NormalizationInput): Promise<NormalizationOutput> {
+    const { paper, entities, candidates } = input;
+    const { batchSize, minConfidence } = config.agents.normalization;
+
+    const aliasOf: Array<AliasTarget | undefined> = new Array(entities.length).fill(undefined);
+    const decisions: NormalizationDecision[] = [];
+    const repairErrors: string[] = [];
+    const dropped: DroppedItem[] = [];
+    let usage = emptyUsage();
+
+    // Entity indices grouped by type; aliases never cross types
+    const byType = new Map<NodeType, number[]>();
+    entities.forEach((entity, index) => {
+      byType.set(entity.type, [...(byType.get(entity.type) ?? []), index]);
+    });
+
+    for (const [type, indices] of byType) {
+      for (let offset = 0; offset < indices.length; offset += batchSize) {
+        const batch = indices.slice(offset, offset + batchSize);
+
+        // Candidate nodes for the whole batch, deduplicated
+        const nodes = new Map<string, NormalizationCandidate>();
+        for (const index of batch) {
+          for (const candidate of candidates[index] ?? []) {
+            nodes.set(candidate.id, candidate);
+          }
+        }
+        const nodeList = Array.from(nodes.values());
+
+        if (nodeList.length === 0 && batch.length < 2) {
+          continue;
+        }
+
+        const result = await this.callLLMForJSON(
+          [
+            { role: 'system', content: this.prompt.system },
+            { role: 'user', content: this.getUserPrompt(paper, type, batch.map((i) => entities[i]), nodeList) },
+          ],
+          NormalizationEnvelopeSchema
+        );
+        usage = addUsage(usage, result.usage);
+        repairErrors.push(...result.repairErrors);
+
+        const { valid, dropped: invalid } = partitionValid(result.data.decisions, NormalizationDecisionSchema);
+        dropped.push(...invalid);
+
+        for (const decision of valid) {
+          if (decision.index >= batch.length) {
+            dropped.push({ item: decision, reason: `index ${decision.index} is out of range` });
+            continue;
+          }
+
+          const entityIndex = batch[decision.index];
+          decisions.push({ ...decision, index: entityIndex });
+
+          if (decision.decision !== 'alias' || decision.confidence < minConfidence) {
+            continue;
+          }
+
+          const target = this.resolveKey(decision.alias_of, decision.index, batch, nodeList);
+          if (!target) {
+            dropped.push({ item: decision, reason: `unknown alias_of key ${decision.alias_of}` });
+            continue;
+          }
+          aliasOf[entityIndex] = target;
+        }
+      }
+    }
+
+    return {
+      aliasOf,
+      decisions,
+      usage,
+      validation: { repair_attempts: repairErrors.length, repair_errors: repairErrors, dropped },
+    };
+  }
+
+  /**
+   * Translate a batch-local key ("N<k>" or "E<k>") into an alias target.
+   * Returns undefined for unknown keys and self-references.
+   */
+  private resolveKey(
+    key: string | undefined,
+    localIndex: number,
+    batch: number[],
+    nodes: NormalizationCandidate[]
+  ): AliasTarget | undefined {
+    if (!key) return undefined;
+
+    const position = Number(key.slice(1));
+    if (key.startsWith('N')) {
+      const node = nodes[position];
+      return node ? { nodeId: node.id, name: node.name } : undefined;
+    }
+
+    if (position === localIndex || position >= batch.length) return undefined;
+    return { entityIndex: batch[position] };
+  }
+
+  /**
+   * Constructs the user prompt listing the candidate nodes (N keys)
+   * and the new entities of one type (E keys).
+   */
+  private getUserPrompt(
+    paper: Paper,
+    type: NodeType,
+    entities: ExtractedEntity[],
+    nodes: NormalizationCandidate[]
+  ): string {
+    const candidateList = nodes.length > 0
+      ? nodes.map((node, k) => [
+          `[N${k}] ${node.name}`,
+          node.aliases.length > 0 ? ` (also known as: ${node.aliases.join(', ')})` : '',
+          node.description ? ` - ${node.description}` : '',
+        ].join('')).join('\n')
+      : '(none)';
+
+    const entityList = entities
+      .map((entity, k) => `[E${k}] ${entity.name}${entity.description ? ` - ${entity.description}` : ''}`)
+      .join('\n');
+
+    return renderTemplate(this.prompt.user, {
+      type,
+      title: paper.title,
+      candidates: candidateList,
+      entities: entityList,
+    });
+  }
+}
@@ -2,116 +2,1001 @@
  * Agent Orchestrator
  * 
  * Coordinates multiple specialized agents to process academic papers and
- * build the knowledge graph. Implements a multi-stage pipeline with
- * entity extraction, relationship extraction, validation, and logging.
+ * build the knowledge graph. Long papers can be extracted section chunk by
+ * section chunk (see `ExtractionMode`) instead of being truncated. Implements a multi-stage pipeline with
+ * entity extraction, relationship extraction, fact-checking, entity canonicalization,
+ * validation, results extraction, summarization, and logging. Stages are
+ * registered with their inputs and outputs (see `./stages.ts`); `config.pipeline.stages`
+ * decides which run, in what order, and which run in parallel.
  */
 
+import { createHash } from 'crypto';
 import { EntityExtractorAgent } from './entity-extractor.js';
 import { RelationshipExtractorAgent } from './relationship-extractor.js';
-import type { Paper, PaperAnalysis, ExtractedEntity, ExtractedRelationship } from '../types/index.js';
+import { ValidationAgent } from './validator.js';
+import { NormalizationAgent } from './normalizer.js';
+import { SummarizationAgent } from './summarizer.js';
+import { ResultsExtractorAgent, isResultsSection } from './results-extractor.js';
+import type { AliasTarget, NormalizationCandidate } from './normalizer.js';
+import { mergeValidationReports } from './schemas.js';
+import type { ValidationReport } from './schemas.js';
+import type { BaseAgent } from './base.js';
+import { planStages } from './stages.js';
+import type { ArtifactName, PaperArtifacts, PipelineStage, StageContext, StageOutput, StageStep } from './stages.js';
+import type {
+  Node,
+  Paper,
+  PaperAnalysis,
+  PaperSummary,
+  ExtractedEntity,
+  ExtractedRelationship,
+  ExtractedResult,
+  ExtractionMode,
+  NodeType,
+  OntologyViolationCounts,
+  RelationshipVerdict,
+  StageCheckpoint,
+  TokenUsage,
+} from '../types/index.js';
 import { sql } from '../database/client.js';
+import { NodeRepository } from '../database/repositories/node-repository.js';
+import { CheckpointRepository } from '../database/repositories/checkpoint-repository.js';
+import { config } from '../config/index.js';
+import { addUsage, emptyUsage, getResponseCache } from '../llm/index.js';
+import type { UsageTracker } from '../llm/index.js';
+import { chunkText } from '../text/sections.js';
+import type { TextChunk } from '../text/sections.js';
+import { EvidenceAligner } from '../text/grounding.js';
+import { checkEdge, emptyViolationCounts, recordViolation } from '../ontology/index.js';
+
+/**
+ * Options for constructing the orchestrator.
+ */
+export interface AgentOrchestratorOptions {
+  mode?: ExtractionMode;        // Defaults to config.extraction.mode
+  stages?: StageStep[];         // Defaults to config.pipeline.stages
+  database?: boolean;           // false runs without a database (evaluation): no known papers,
+                                // canonicalization within the paper only, no logs, checkpoints
+                                // or response cache
+}
+
+/**
+ * Options for processing a single paper.
+ */
+export interface ProcessPaperOptions {
+  runId?: string;               // Ingestion run to attribute logs to
+  usageTracker?: UsageTracker;  // Run-level accumulator, updated after every stage
+  checkpoints?: boolean;        // Resume from and save stage checkpoints; defaults to config.checkpoints.enabled (never without a database)
+  fromStage?: string;           // Re-run this stage even if checkpointed (and every stage that reads its output)
+}
+
+/**
+ * A single extraction log entry.
+ */
+interface ExtractionLogEntry {
+  paperId: string;
+  agentName: string;
+  extractionType: string;
+  inputData: Record<string, any>;
+  outputData: Record<string, any>;
+  success: boolean;
+  executionTimeMs: number;
+  errorMessage?: string;
+  runId?: string;
+  model?: string;               // Model the agent resolved to (logged when usage names none)
+  promptVersion?: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * Entities, relationships or results extracted from a paper, with the cost of doing so.
+ */
+interface ExtractionResult<T> {
+  items: T[];
+  usage: TokenUsage;
+  validation: ValidationReport;
+}
 
 /**
  * Orchestrates multi-agent processing of papers.
  */
 export class AgentOrchestrator {
+  readonly mode: ExtractionMode;
+  readonly database: boolean;
   private entityExtractor: EntityExtractorAgent;
   private relationshipExtractor: RelationshipExtractorAgent;
+  private validator: ValidationAgent;
+  private normalizer: NormalizationAgent;
+  private summarizer: SummarizationAgent;
+  private resultsExtractor: ResultsExtractorAgent;
+  private nodeRepo: NodeRepository;
+  private checkpointRepo: CheckpointRepository;
+  private steps: readonly StageStep[];
+  private stages = new Map<string, PipelineStage>();
 
-  constructor() {
+  constructor(options: AgentOrchestratorOptions = {}) {
+    this.mode = options.mode ?? config.extraction.mode;
+    this.steps = options.stages ?? config.pipeline.stages;
+    this.database = options.database ?? true;
+    if (!this.database) {
+      // The response cache lives in Postgres too
+      getResponseCache().disable();
+    }
     this.entityExtractor = new EntityExtractorAgent();
     this.relationshipExtractor = new RelationshipExtractorAgent();
+    this.validator = new ValidationAgent();
+    this.normalizer = new NormalizationAgent();
+    this.summarizer = new SummarizationAgent();
+    this.resultsExtractor = new ResultsExtractorAgent();
+    this.nodeRepo = new NodeRepository();
+    this.checkpointRepo = new CheckpointRepository();
+
+    this.registerStage({
+      name: 'entities',
+      description: 'Extracting entities',
+      version: this.agentVersion(this.entityExtractor, this.mode, config.selfConsistency.samples),
+      inputs: [],
+      outputs: ['entities'],
+      run: (context) => this.entityStage(context),
+    });
+    this.registerStage({
+      name: 'relationships',
+      description: 'Extracting relationships',
+      version: this.agentVersion(this.relationshipExtractor, this.mode, config.selfConsistency.samples),
+      inputs: ['entities'],
+      outputs: ['relationships', 'existingPapers'],
+      run: (context) => this.relationshipStage(context),
+    });
+    this.registerStage({
+      name: 'grounding',
+      description: 'Grounding evidence',
+      version: `grounding/${config.grounding.minScore}/${config.grounding.unlocatedPenalty}`,
+      inputs: ['entities', 'relationships'],
+      outputs: ['entities', 'relationships'],
+      enabled: () => config.grounding.enabled,
+      run: (context) => this.groundingStage(context),
+    });
+    this.registerStage({
+      name: 'fact_check',
+      description: 'Fact-checking relationships',
+      version: this.agentVersion(this.validator, config.agents.validation.minConfidence),
+      inputs: ['relationships'],
+      outputs: ['relationships'],
+      enabled: () => config.agents.validation.enabled,
+      run: (context) => this.factCheckStage(context),
+    });
+    this.registerStage({
+      name: 'canonicalize',
+      description: 'Canonicalizing entities',
+      version: this.agentVersion(this.normalizer),
+      inputs: ['entities', 'relationships'],
+      outputs: ['entities', 'relationships'],
+      enabled: () => config.agents.normalization.enabled,
+      run: (context) => this.canonicalizationStage(context),
+    });
+    this.registerStage({
+      name: 'validate',
+      description: 'Validating and normalizing',
+      version: `validate/${config.ontology.enabled ? config.ontology.onViolation : 'no-ontology'}`,
+      inputs: ['entities', 'relationships'],
+      outputs: ['entities', 'relationships', 'ontology'],
+      run: (context) => this.validationStage(context),
+    });
+    this.registerStage({
+      name: 'results',
+      description: 'Extracting quantitative results',
+      version: this.agentVersion(this.resultsExtractor, this.mode, config.grounding.enabled),
+      inputs: ['entities'],
+      outputs: ['results'],
+      enabled: () => config.agents.resultsExtraction.enabled,
+      run: (context) => this.resultsStage(context),
+    });
+    this.registerStage({
+      name: 'summary',
+      description: 'Summarizing paper',
+      version: this.agentVersion(this.summarizer),
+      inputs: [],
+      outputs: ['summary'],
+      enabled: () => config.agents.summarization.enabled,
+      run: (context) => this.summaryStage(context),
+    });
+  }
+
+  /**
+   * Register a pipeline stage, replacing any stage of the same name.
+   * The stage runs once its name appears in the configured stage list.
+   *
+   * @param stage Stage with its declared inputs and outputs
+   */
+  registerStage(stage: PipelineStage): void {
+    this.stages.set(stage.name, stage);
   }
 
   /**
-   * Process a single paper through the full pipeline.
+   * Process a single paper through the configured stages.
    * 
-   * Steps:
-   *   1. Extract entities
-   *   2. Extract relationships
-   *   3. Validate and normalize entities and relationships
-   *   4. Log extraction results
+   * Built-in stages, in the default order:
+   *   1. entities - Extract entities (per section chunk in chunked mode, with a running entity list)
+   *   2. relationships - Extract relationships (per section chunk in chunked mode)
+   *   3. grounding - Ground evidence and context quotes in the full text (if enabled)
+   *   4. fact_check - Fact-check relationships against their evidence (if enabled)
+   *   5. canonicalize - Canonicalize entities against existing nodes (if enabled)
+   *   6. validate - Validate and normalize entities and relationships, enforcing the ontology (if enabled)
+   *   7. results, summary - Extract quantitative results and summarize the paper, in parallel (if enabled)
+   * Every stage that ran is logged with its token usage and cost. With checkpoints
+   * enabled, each stage's output is saved per paper, and a stage whose checkpoint
+   * is still valid (same stage version and paper text, no re-run inputs) is
+   * restored instead of re-run, so a failed paper resumes at the stage that failed.
    * 
    * @param paper Paper to process
    * @param fullText Full text of the paper
-   * @returns PaperAnalysis containing validated entities and relationships
+   * @param options Run attribution, usage tracking and checkpoint use
+   * @returns PaperAnalysis containing validated entities, relationships and usage
    */
-  async processPaper(paper: Paper, fullText: string): Promise<PaperAnalysis> {
+  async processPaper(
+    paper: Paper,
+    fullText: string,
+    options: ProcessPaperOptions = {}
+  ): Promise<PaperAnalysis> {
     console.log(`\nProcessing paper: ${paper.title}`);
     const startTime = Date.now();
+    const { runId, usageTracker, fromStage } = options;
+    const useCheckpoints = this.database && (options.checkpoints ?? config.checkpoints.enabled);
+    const plan = planStages(this.steps, this.stages);
+    if (fromStage && !plan.some((group) => group.some((stage) => stage.name === fromStage))) {
+      throw new Error(`Cannot resume from stage ${fromStage}: it is not in the enabled pipeline stages`);
+    }
+    let usage = emptyUsage();
 
     try {
-      // Stage 1: Entity extraction
-      console.log('Stage 1: Extracting entities...');
-      const entityResult = await this.entityExtractor.process({ paper, text: fullText });
-      console.log(`Extracted ${entityResult.entities.length} entities`);
-
-      // Log entity extraction
-      await this.logExtraction(
-        paper.id,
-        'EntityExtractor',
-        'entity',
-        { text_length: fullText.length },
-        { entity_count: entityResult.entities.length, entities: entityResult.entities },
-        true,
-        Date.now() - startTime
-      );
+      // Split long papers into section chunks; null means a single call with the whole text
+      const chunks = this.planChunks(fullText);
+      if (chunks) {
+        console.log(`Chunked extraction: ${chunks.length} chunk(s)`);
+      }
 
-      // Stage 2: Relationship extraction
-      console.log('Stage 2: Extracting relationships...');
-      const existingPapers = await this.getExistingPapers();
+      const context: StageContext = { paper, fullText, chunks, artifacts: {} };
+      const inputHash = createHash('sha256').update(fullText).digest('hex');
+      const checkpoints = useCheckpoints ? await this.checkpointRepo.findForPaper(paper.id) : new Map<string, StageCheckpoint>();
+      // Artifacts produced anew in this run; stages reading them cannot reuse their checkpoints
+      const rerun = new Set<ArtifactName>();
 
-      const relationshipResult = await this.relationshipExtractor.process({
-        paper,
-        entities: entityResult.entities,
-        text: fullText,
-        existingPapers,
-      });
-      console.log(`Extracted ${relationshipResult.relationships.length} relationships`);
-
-      // Log relationship extraction
-      await this.logExtraction(
-        paper.id,
-        'RelationshipExtractor',
-        'relationship',
-        { entity_count: entityResult.entities.length, existing_papers: existingPapers.length },
-        { relationship_count: relationshipResult.relationships.length, relationships: relationshipResult.relationships },
-        true,
-        Date.now() - startTime
-      );
+      for (const [index, group] of plan.entries()) {
+        // Stages of a group only read artifacts of earlier groups, so their outputs merge afterwards.
+        // Each stage saves its checkpoint as soon as it succeeds, so a failing stage does not
+        // discard the work of the others in its group; the first failure is thrown once all settle.
+        const settled = await Promise.allSettled(
+          group.map(async (stage) => {
+            const checkpoint = checkpoints.get(stage.name);
+            const restorable = checkpoint !== undefined
+              && stage.name !== fromStage
+              && checkpoint.stage_version === (stage.version ?? '')
+              && checkpoint.input_hash === inputHash
+              && !stage.inputs.some((input) => rerun.has(input));
+            if (restorable) {
+              console.log(`Stage ${index + 1}: ${stage.description} (restored from checkpoint)`);
+              const output: StageOutput = { artifacts: checkpoint.artifacts as Partial<PaperArtifacts> };
+              return { stage, output, restored: true, executionTimeMs: 0 };
+            }
 
-      // Stage 3: Validation and normalization
-      console.log('Stage 3: Validating and normalizing...');
-      const validatedEntities = await this.validateEntities(entityResult.entities);
-      const validatedRelationships = await this.validateRelationships(relationshipResult.relationships, validatedEntities);
+            console.log(`Stage ${index + 1}: ${stage.description}...`);
+            const stageStart = Date.now();
+            const output = await stage.run(context);
+            const executionTimeMs = Date.now() - stageStart;
+            if (useCheckpoints) {
+              await this.saveCheckpoint(paper.id, stage, inputHash, output?.artifacts ?? {});
+            }
+            return { stage, output, restored: false, executionTimeMs };
+          })
+        );
+        const failure = settled.find((outcome) => outcome.status === 'rejected');
+        if (failure?.status === 'rejected') {
+          throw failure.reason;
+        }
+        const outcomes = settled.flatMap((outcome) => (outcome.status === 'fulfilled' ? [outcome.value] : []));
+
+        for (const { stage, output, restored, executionTimeMs } of outcomes) {
+          if (!restored) {
+            stage.outputs.forEach((output) => rerun.add(output));
+          }
+          if (!output) continue;
+
+          Object.assign(context.artifacts, output.artifacts);
+          if (output.usage) {
+            usage = addUsage(usage, output.usage);
+            usageTracker?.record(output.usage);
+          }
+
+          if (output.log) {
+            const { agent, ...log } = output.log;
+            await this.logExtraction({
+              paperId: paper.id,
+              ...log,
+              success: true,
+              executionTimeMs,
+              runId,
+              model: agent?.model,
+              promptVersion: agent?.promptVersion,
+              usage: output.usage,
+            });
+          }
+        }
+      }
 
       const totalTime = Date.now() - startTime;
       console.log(`Processing complete in ${(totalTime / 1000).toFixed(2)}s`);
+      console.log(
+        `LLM usage: ${usage.calls} call(s), ${usage.input_tokens + usage.output_tokens} tokens, ` +
+        `~$${usage.cost_usd.toFixed(4)}`
+      );
 
+      const { entities = [], relationships = [], results, summary, ontology } = context.artifacts;
       return {
         paper_id: paper.id,
-        entities: validatedEntities,
-        relationships: validatedRelationships,
+        entities,
+        relationships,
+        results,
+        ...summary,
+        usage,
+        ontology,
       };
     } catch (error) {
       console.error('Error processing paper:', error);
 
       // Log full pipeline failure
-      await this.logExtraction(
-        paper.id,
-        'Orchestrator',
-        'full_pipeline',
-        { text_length: fullText.length },
-        {},
-        false,
-        Date.now() - startTime,
-        error instanceof Error ? error.message : String(error)
-      );
+      await this.logExtraction({
+        paperId: paper.id,
+        agentName: 'Orchestrator',
+        extractionType: 'full_pipeline',
+        inputData: { text_length: fullText.length },
+        outputData: {},
+        success: false,
+        executionTimeMs: Date.now() - startTime,
+        errorMessage: error instanceof Error ? error.message : String(error),
+        runId,
+        usage,
+      });
 
       throw error;
     }
   }
 
+  /**
+   * Stage 'entities': extract entities from the whole text or chunk by chunk.
+   */
+  private async entityStage({ paper, fullText, chunks }: StageContext): Promise<StageOutput> {
+    const extraction = await this.extractEntities(paper, fullText, chunks);
+    const entities = this.withProvenance(extraction.items, this.entityExtractor);
+    console.log(`Extracted ${entities.length} entities`);
+
+    return {
+      artifacts: { entities },
+      usage: extraction.usage,
+      log: {
+        agentName: 'EntityExtractor',
+        extractionType: 'entity',
+        inputData: { text_length: fullText.length, chunk_count: chunks?.length ?? 1 },
+        outputData: { entity_count: entities.length, entities, validation: extraction.validation },
+        agent: this.entityExtractor,
+      },
+    };
+  }
+
+  /**
+   * Stage 'relationships': extract relationships between the paper's entities
+   * and recently completed papers.
+   */
+  private async relationshipStage({ paper, fullText, chunks, artifacts }: StageContext): Promise<StageOutput> {
+    const entities = artifacts.entities ?? [];
+    const existingPapers = await this.getExistingPapers();
+
+    const extraction = await this.extractRelationships(paper, fullText, chunks, entities, existingPapers);
+    const relationships = this.withProvenance(extraction.items, this.relationshipExtractor);
+    console.log(`Extracted ${relationships.length} relationships`);
+
+    return {
+      artifacts: { relationships, existingPapers },
+      usage: extraction.usage,
+      log: {
+        agentName: 'RelationshipExtractor',
+        extractionType: 'relationship',
+        inputData: {
+          entity_count: entities.length,
+          existing_papers: existingPapers.length,
+          chunk_count: chunks?.length ?? 1,
+        },
+        outputData: {
+          relationship_count: relationships.length,
+          relationships,
+          validation: extraction.validation,
+        },
+        agent: this.relationshipExtractor,
+      },
+    };
+  }
+
+  /**
+   * Stage 'grounding': locate evidence and context quotes in the full text (no LLM involved).
+   */
+  private async groundingStage({ paper, fullText, artifacts }: StageContext): Promise<StageOutput> {
+    const aligner = new EvidenceAligner(fullText);
+    const entities = this.groundItems(artifacts.entities ?? [], (e) => e.context, aligner, paper.id);
+    const relationships = this.groundItems(artifacts.relationships ?? [], (r) => r.evidence, aligner, paper.id);
+
+    const entityStats = this.groundingStats(entities);
+    const relationshipStats = this.groundingStats(relationships);
+    console.log(
+      `Located ${relationshipStats.located}/${relationshipStats.quoted} evidence quotes and ` +
+      `${entityStats.located}/${entityStats.quoted} entity contexts`
+    );
+
+    return {
+      artifacts: { entities, relationships },
+      log: {
+        agentName: 'EvidenceAligner',
+        extractionType: 'grounding',
+        inputData: { text_length: fullText.length },
+        outputData: { entities: entityStats, relationships: relationshipStats },
+      },
+    };
+  }
+
+  /**
+   * Stage 'fact_check': check relationships against their evidence and apply the verdicts.
+   */
+  private async factCheckStage({ paper, fullText, artifacts }: StageContext): Promise<StageOutput | null> {
+    const relationships = artifacts.relationships ?? [];
+    if (relationships.length === 0) return null;
+
+    const validationResult = await this.validator.process({ paper, relationships, text: fullText });
+    const checked = this.applyVerdicts(relationships, validationResult.verdicts);
+    console.log(`Kept ${checked.length}/${relationships.length} relationships after fact-checking`);
+
+    return {
+      artifacts: { relationships: checked },
+      usage: validationResult.usage,
+      log: {
+        agentName: 'Validator',
+        extractionType: 'validation',
+        inputData: { relationship_count: relationships.length },
+        outputData: {
+          relationship_count: checked.length,
+          verdicts: validationResult.verdicts,
+          validation: validationResult.validation,
+        },
+        agent: this.validator,
+      },
+    };
+  }
+
+  /**
+   * Stage 'canonicalize': merge entities that are aliases of existing nodes
+   * and rename relationship endpoints accordingly.
+   */
+  private async canonicalizationStage({ paper, artifacts }: StageContext): Promise<StageOutput | null> {
+    const entities = artifacts.entities ?? [];
+    if (entities.length === 0) return null;
+
+    const { known, candidates } = await this.findAliasCandidates(entities);
+    const normalizationResult = await this.normalizer.process({ paper, entities, candidates });
+
+    // Recorded aliases resolve without asking the model
+    const targets = normalizationResult.aliasOf.map((target, index): AliasTarget | undefined => {
+      const node = known[index];
+      return node ? { nodeId: node.id, name: node.name } : target;
+    });
+    const merged = this.mergeAliases(entities, targets);
+    console.log(`Resolved ${merged.renames.size} aliases (${entities.length} -> ${merged.entities.length} entities)`);
+
+    return {
+      artifacts: {
+        entities: merged.entities,
+        relationships: this.renameEndpoints(artifacts.relationships ?? [], merged.renames),
+      },
+      usage: normalizationResult.usage,
+      log: {
+        agentName: 'Normalizer',
+        extractionType: 'normalization',
+        inputData: { entity_count: entities.length, known_aliases: known.filter(Boolean).length },
+        outputData: {
+          entity_count: merged.entities.length,
+          aliases: Object.fromEntries(merged.renames),
+          decisions: normalizationResult.decisions,
+          validation: normalizationResult.validation,
+        },
+        agent: this.normalizer,
+      },
+    };
+  }
+
+  /**
+   * Stage 'validate': deduplicate entities, drop relationships between unknown
+   * entities and enforce the ontology (if enabled).
+   */
+  private async validationStage({ paper, artifacts }: StageContext): Promise<StageOutput> {
+    const entities = await this.validateEntities(artifacts.entities ?? []);
+    const extracted = artifacts.relationships ?? [];
+    const { relationships, violations: ontology } = await this.validateRelationships(
+      extracted,
+      entities,
+      [paper.title, ...(artifacts.existingPapers ?? []).map((p) => p.title)]
+    );
+
+    if (!config.ontology.enabled) {
+      return { artifacts: { entities, relationships, ontology } };
+    }
+
+    console.log(
+      `Ontology: ${ontology.flipped} flipped, ${ontology.retyped} retyped, ${ontology.rejected} rejected relationships`
+    );
+    return {
+      artifacts: { entities, relationships, ontology },
+      log: {
+        agentName: 'Ontology',
+        extractionType: 'ontology',
+        inputData: { relationship_count: extracted.length, policy: config.ontology.onViolation },
+        outputData: { relationship_count: relationships.length, violations: ontology },
+      },
+    };
+  }
+
+  /**
+   * Stage 'results': extract quantitative results and ground their evidence (if enabled).
+   */
+  private async resultsStage({ paper, fullText, chunks, artifacts }: StageContext): Promise<StageOutput> {
+    const entities = artifacts.entities ?? [];
+    const extraction = await this.extractResults(paper, fullText, chunks, entities);
+    let results = this.withProvenance(extraction.items, this.resultsExtractor);
+    if (config.grounding.enabled) {
+      results = this.groundItems(results, (r) => r.evidence, new EvidenceAligner(fullText), paper.id);
+    }
+    console.log(`Extracted ${results.length} results`);
+
+    return {
+      artifacts: { results },
+      usage: extraction.usage,
+      log: {
+        agentName: 'ResultsExtractor',
+        extractionType: 'results',
+        inputData: { text_length: fullText.length, entity_count: entities.length, chunk_count: chunks?.length ?? 1 },
+        outputData: {
+          results,
+          result_count: results.length,
+          grounding: this.groundingStats(results),
+          validation: extraction.validation,
+        },
+        agent: this.resultsExtractor,
+      },
+    };
+  }
+
+  /**
+   * Stage 'summary': summarize the paper.
+   */
+  private async summaryStage({ paper, fullText }: StageContext): Promise<StageOutput> {
+    const summaryResult = await this.summarizer.process({ paper, text: fullText });
+    const summary: PaperSummary = {
+      summary: summaryResult.summary,
+      key_contributions: summaryResult.key_contributions,
+      limitations: summaryResult.limitations,
+    };
+
+    return {
+      artifacts: { summary },
+      usage: summaryResult.usage,
+      log: {
+        agentName: 'Summarizer',
+        extractionType: 'summary',
+        inputData: { text_length: fullText.length },
+        outputData: { ...summary, validation: summaryResult.validation },
+        agent: this.summarizer,
+      },
+    };
+  }
+
+  /**
+   * Save a stage's output so a later run of the same paper can skip the stage.
+   * A failed save only costs a re-run, so it is logged rather than thrown.
+   */
+  private async saveCheckpoint(
+    paperId: string,
+    stage: PipelineStage,
+    inputHash: string,
+    artifacts: Partial<PaperArtifacts>
+  ): Promise<void> {
+    try {
+      await this.checkpointRepo.save(paperId, stage.name, stage.version ?? '', inputHash, artifacts);
+    } catch (error) {
+      console.warn(`Failed to save checkpoint for stage ${stage.name}:`, error);
+    }
+  }
+
+  /**
+   * Version of a stage run by an agent: its model and prompt version, plus
+   * the settings that change its output.
+   */
+  private agentVersion(agent: BaseAgent, ...settings: Array<string | number | boolean>): string {
+    return [agent.model, agent.promptVersion, ...settings].join('/');
+  }
+
+  /**
+   * Decide how to feed the text to the extractors.
+   * Returns null for a single call with the whole text ('single' mode, or
+   * 'auto' mode with a text short enough), otherwise the section chunks.
+   */
+  private planChunks(fullText: string): TextChunk[] | null {
+    const { singleCallMaxChars, chunkSize, chunkOverlap, excludeSections } = config.extraction;
+
+    if (this.mode === 'single' || (this.mode === 'auto' && fullText.length <= singleCallMaxChars)) {
+      return null;
+    }
+
+    const chunks = chunkText(fullText, { maxChars: chunkSize, overlapChars: chunkOverlap, excludeSections });
+    return chunks.length > 0 ? chunks : null;
+  }
+
+  /**
+   * Extract entities from the whole text, or chunk by chunk. Each chunk sees
+   * the entities found so far, and repeated entities are merged.
+   */
+  private async extractEntities(
+    paper: Paper,
+    fullText: string,
+    chunks: TextChunk[] | null
+  ): Promise<ExtractionResult<ExtractedEntity>> {
+    if (!chunks) {
+      const result = await this.entityExtractor.process({ paper, text: fullText });
+      return { items: result.entities, usage: result.usage, validation: result.validation };
+    }
+
+    const merged = new Map<string, ExtractedEntity>();
+    const reports: ValidationReport[] = [];
+    let usage = emptyUsage();
+
+    for (const chunk of chunks) {
+      console.log(`  Chunk ${chunk.index + 1}/${chunks.length}: ${chunk.sections.join(', ')}`);
+      const result = await this.entityExtractor.process({
+        paper,
+        text: chunk.text,
+        knownEntities: Array.from(merged.values()),
+      });
+      usage = addUsage(usage, result.usage);
+      reports.push(result.validation);
+
+      for (const entity of result.entities) {
+        this.mergeChunkItem(merged, `${entity.type}:${this.normalizeName(entity.name)}`, entity, chunk);
+      }
+    }
+
+    return { items: Array.from(merged.values()), usage, validation: mergeValidationReports(reports) };
+  }
+
+  /**
+   * Extract relationships from the whole text, or chunk by chunk against the
+   * paper's full entity list, merging relationships found in several chunks.
+   */
+  private async extractRelationships(
+    paper: Paper,
+    fullText: string,
+    chunks: TextChunk[] | null,
+    entities: ExtractedEntity[],
+    existingPapers: Array<{ title: string; arxiv_id?: string }>
+  ): Promise<ExtractionResult<ExtractedRelationship>> {
+    if (!chunks) {
+      const result = await this.relationshipExtractor.process({ paper, entities, text: fullText, existingPapers });
+      return { items: result.relationships, usage: result.usage, validation: result.validation };
+    }
+
+    const merged = new Map<string, ExtractedRelationship>();
+    const reports: ValidationReport[] = [];
+    let usage = emptyUsage();
+
+    for (const chunk of chunks) {
+      console.log(`  Chunk ${chunk.index + 1}/${chunks.length}: ${chunk.sections.join(', ')}`);
+      const result = await this.relationshipExtractor.process({ paper, entities, text: chunk.text, existingPapers });
+      usage = addUsage(usage, result.usage);
+      reports.push(result.validation);
+
+      for (const rel of result.relationships) {
+        const key = `${rel.type}:${this.normalizeName(rel.source)}:${this.normalizeName(rel.target)}`;
+        this.mergeChunkItem(merged, key, rel, chunk);
+      }
+    }
+
+    return { items: Array.from(merged.values()), usage, validation: mergeValidationReports(reports) };
+  }
+
+  /**
+   * Extract results from the whole text, or from the chunks covering results
+   * sections (every chunk if none does), merging results found in several chunks.
+   */
+  private async extractResults(
+    paper: Paper,
+    fullText: string,
+    chunks: TextChunk[] | null,
+    entities: ExtractedEntity[]
+  ): Promise<ExtractionResult<ExtractedResult>> {
+    if (!chunks) {
+      const result = await this.resultsExtractor.process({ paper, text: fullText, entities });
+      return { items: result.results, usage: result.usage, validation: result.validation };
+    }
+
+    const resultsChunks = chunks.filter((chunk) => chunk.sections.some(isResultsSection));
+    const selected = resultsChunks.length > 0 ? resultsChunks : chunks;
+    const merged = new Map<string, ExtractedResult>();
+    const reports: ValidationReport[] = [];
+    let usage = emptyUsage();
+
+    for (const chunk of selected) {
+      console.log(`  Chunk ${chunk.index + 1}/${chunks.length}: ${chunk.sections.join(', ')}`);
+      const result = await this.resultsExtractor.process({ paper, text: chunk.text, entities });
+      usage = addUsage(usage, result.usage);
+      reports.push(result.validation);
+
+      for (const r of result.results) {
+        const key = [r.method, r.dataset, r.metric, r.setting ?? ''].map((name) => this.normalizeName(name)).join(':');
+        this.mergeChunkItem(merged, key, r, chunk);
+      }
+    }
+
+    return { items: Array.from(merged.values()), usage, validation: mergeValidationReports(reports) };
+  }
+
+  /**
+   * Add an item found in a chunk, merging it with an earlier occurrence.
+   * The higher-confidence occurrence wins; `metadata.chunks` and
+   * `metadata.sections` record every chunk and section it was found in.
+   */
+  private mergeChunkItem<T extends { confidence: number; metadata?: Record<string, any> }>(
+    items: Map<string, T>,
+    key: string,
+    item: T,
+    chunk: TextChunk
+  ): void {
+    const existing = items.get(key);
+    const base = existing && existing.confidence >= item.confidence ? existing : item;
+    const chunkIndices: number[] = [...(existing?.metadata?.chunks ?? []), chunk.index];
+    const sections: string[] = [...(existing?.metadata?.sections ?? []), ...chunk.sections];
+
+    items.set(key, {
+      ...base,
+      metadata: {
+        ...base.metadata,
+        chunks: Array.from(new Set(chunkIndices)),
+        sections: Array.from(new Set(sections)),
+      },
+    });
+  }
+
+  /**
+   * Locate each item's quote in the paper text and record the match in
+   * `metadata.grounding` ({ paper_id, located, start, end, score }); offsets
+   * refer to that paper's `full_text`. Items whose quote cannot be located
+   * have their confidence multiplied by `config.grounding.unlocatedPenalty`.
+   * Items without a quote are left unchanged.
+   */
+  private groundItems<T extends { confidence: number; metadata?: Record<string, any> }>(
+    items: T[],
+    quoteOf: (item: T) => string | undefined,
+    aligner: EvidenceAligner,
+    paperId: string
+  ): T[] {
+    const { minScore, unlocatedPenalty } = config.grounding;
+
+    return items.map((item) => {
+      const quote = quoteOf(item);
+      if (!quote) return item;
+
+      const match = aligner.align(quote);
+      const located = match !== null && match.score >= minScore;
+
+      return {
+        ...item,
+        confidence: located ? item.confidence : item.confidence * unlocatedPenalty,
+        metadata: {
+          ...item.metadata,
+          grounding: located
+            ? { paper_id: paperId, located, start: match.start, end: match.end, score: match.score }
+            : { paper_id: paperId, located, score: match?.score ?? 0, original_confidence: item.confidence },
+        },
+      };
+    });
+  }
+
+  /**
+   * Count quoted and located items after grounding.
+   */
+  private groundingStats(items: Array<{ metadata?: Record<string, any> }>): { quoted: number; located: number } {
+    const grounded = items.filter((item) => item.metadata?.grounding);
+    return {
+      quoted: grounded.length,
+      located: grounded.filter((item) => item.metadata!.grounding.located).length,
+    };
+  }
+
+  /**
+   * Stamp the producing agent's prompt version and model into each item's metadata,
+   * so every node and edge records which prompt produced it.
+   */
+  private withProvenance<T extends { metadata?: Record<string, any> }>(items: T[], agent: BaseAgent): T[] {
+    return items.map((item) => ({
+      ...item,
+      metadata: {
+        ...item.metadata,
+        prompt_version: agent.promptVersion,
+        model: agent.model,
+      },
+    }));
+  }
+
+  /**
+   * Apply the validator's verdicts to relationships.
+   *
+   * - supported: keep, with the adjusted confidence
+   * - unsupported: drop
+   * - wrong_direction: swap source and target
+   * - wrong_type: retype to the suggested type, or downgrade to `related_to`
+   *
+   * Relationships whose adjusted confidence falls below
+   * `config.agents.validation.minConfidence` are dropped. Relationships the
+   * validator returned no verdict for are kept unchanged. The verdict is
+   * recorded in `metadata.validation`.
+   */
+  private applyVerdicts(
+    relationships: ExtractedRelationship[],
+    verdicts: Array<RelationshipVerdict | undefined>
+  ): ExtractedRelationship[] {
+    const kept: ExtractedRelationship[] = [];
+
+    relationships.forEach((rel, index) => {
+      const verdict = verdicts[index];
+      if (!verdict) {
+        kept.push(rel);
+        return;
+      }
+
+      if (verdict.verdict === 'unsupported' || verdict.adjusted_confidence < config.agents.validation.minConfidence) {
+        return;
+      }
+
+      const flipped = verdict.verdict === 'wrong_direction';
+      const retyped = verdict.verdict === 'wrong_type';
+
+      kept.push({
+        ...rel,
+        source: flipped ? rel.target : rel.source,
+        target: flipped ? rel.source : rel.target,
+        type: retyped ? verdict.suggested_type ?? 'related_to' : rel.type,
+        confidence: verdict.adjusted_confidence,
+        metadata: {
+          ...rel.metadata,
+          validation: {
+            verdict: verdict.verdict,
+            rationale: verdict.rationale,
+            original_confidence: rel.confidence,
+            ...(retyped && { original_type: rel.type }),
+            model: this.validator.model,
+            prompt_version: this.validator.promptVersion,
+          },
+        },
+      });
+    });
+
+    return kept;
+  }
+
+  /**
+   * Look up each entity in the graph for canonicalization.
+   * Entities that are recorded aliases are returned in `known`; entities that
+   * already exist under their own name get no candidates; the rest get the
+   * closest existing nodes of the same type. Without a database every entity
+   * gets none, so only the paper's own entities are merged.
+   */
+  private async findAliasCandidates(entities: ExtractedEntity[]): Promise<{
+    known: Array<Node | null>;
+    candidates: NormalizationCandidate[][];
+  }> {
+    const known: Array<Node | null> = [];
+    const candidates: NormalizationCandidate[][] = [];
+    if (!this.database) {
+      return { known: entities.map(() => null), candidates: entities.map(() => []) };
+    }
+
+    for (const entity of entities) {
+      try {
+        const aliased = await this.nodeRepo.findByAlias(entity.name, entity.type);
+        const nodes = aliased
+          ? []
+          : await this.nodeRepo.findAliasCandidates(
+              entity.type,
+              entity.name,
+              config.agents.normalization.candidatesPerEntity
+            );
+        const exists = nodes.some((node) => node.canonical_name === this.normalizeName(entity.name));
+
+        known.push(aliased);
+        candidates.push(exists ? [] : nodes.map((node) => ({
+          id: node.id,
+          name: node.name,
+          type: node.type,
+          description: node.description ?? node.metadata?.description,
+          aliases: node.aliases,
+        })));
+      } catch (error) {
+        console.warn(`Could not fetch alias candidates for ${entity.name}:`, error);
+        known.push(null);
+        candidates.push([]);
+      }
+    }
+
+    return { known, candidates };
+  }
+
+  /**
+   * Rename entities to their canonical form and merge the ones that coincide.
+   * Chains between new entities are followed; the original names are kept in
+   * `aliases` so they are recorded against the canonical node.
+   *
+   * @returns Canonical entities and a map from normalized original name to canonical name
+   */
+  private mergeAliases(
+    entities: ExtractedEntity[],
+    targets: Array<AliasTarget | undefined>
+  ): { entities: ExtractedEntity[]; renames: Map<string, string> } {
+    const canonicalName = (index: number, seen = new Set<number>()): string => {
+      const target = targets[index];
+      if (!target || seen.has(index)) return entities[index].name;
+      seen.add(index);
+      return 'nodeId' in target ? target.name : canonicalName(target.entityIndex, seen);
+    };
+
+    const merged = new Map<string, ExtractedEntity>();
+    const renames = new Map<string, string>();
+
+    entities.forEach((entity, index) => {
+      const name = canonicalName(index);
+      const normalized = this.normalizeName(name);
+      const renamed = normalized !== this.normalizeName(entity.name);
+      if (renamed) {
+        renames.set(this.normalizeName(entity.name), name);
+      }
+
+      const key = `${entity.type}:${normalized}`;
+      const existing = merged.get(key);
+      const base = existing && existing.confidence >= entity.confidence ? existing : entity;
+      const aliases = [
+        ...(existing?.aliases ?? []),
+        ...(renamed ? [entity.name] : []),
+        ...(entity.aliases ?? []),
+      ].filter((alias) => this.normalizeName(alias) !== normalized);
+
+      merged.set(key, {
+        ...base,
+        name,
+        aliases: Array.from(new Map(aliases.map((alias) => [this.normalizeName(alias), alias])).values()),
+      });
+    });
+
+    return { entities: Array.from(merged.values()), renames };
+  }
+
+  /**
+   * Point relationship endpoints at canonical entity names,
+   * dropping relationships that collapse into self-loops.
+   */
+  private renameEndpoints(
+    relationships: ExtractedRelationship[],
+    renames: Map<string, string>
+  ): ExtractedRelationship[] {
+    return relationships
+      .map((rel) => ({
+        ...rel,
+        source: renames.get(this.normalizeName(rel.source)) ?? rel.source,
+        target: renames.get(this.normalizeName(rel.target)) ?? rel.target,
+      }))
+      .filter((rel) => this.normalizeName(rel.source) !== this.normalizeName(rel.target));
+  }
+
   /**
    * Deduplicate and normalize entities based on their names.
    * Keeps the entity with higher confidence if duplicates exist.
@@ -135,25 +1020,82 @@ export class AgentOrchestrator {
   }
 
   /**
-   * Validate relationships by ensuring at least one end is a recognized entity.
+   * Validate relationships by ensuring at least one end is a recognized entity,
+   * then enforce the ontology's domain/range rules (if enabled).
+   *
+   * Endpoint types come from the paper's entities, the paper itself and the
+   * known papers; endpoints of unknown type are left for `EdgeRepository` to
+   * check once they resolve to nodes. Flipped and retyped relationships record
+   * the violation in `metadata.ontology`.
    */
   private async validateRelationships(
     relationships: ExtractedRelationship[],
-    entities: ExtractedEntity[]
-  ): Promise<ExtractedRelationship[]> {
+    entities: ExtractedEntity[],
+    paperTitles: string[]
+  ): Promise<{ relationships: ExtractedRelationship[]; violations: OntologyViolationCounts }> {
     const entityNames = new Set(entities.map((e) => this.normalizeName(e.name)));
+    const violations = emptyViolationCounts();
 
-    return relationships.filter((rel) => {
+    const recognized = relationships.filter((rel) => {
       const sourceNorm = this.normalizeName(rel.source);
       const targetNorm = this.normalizeName(rel.target);
       return entityNames.has(sourceNorm) || entityNames.has(targetNorm);
     });
+    if (!config.ontology.enabled) {
+      return { relationships: recognized, violations };
+    }
+
+    const nodeTypes = new Map<string, NodeType>(paperTitles.map((title) => [this.normalizeName(title), 'paper']));
+    for (const entity of entities) {
+      nodeTypes.set(this.normalizeName(entity.name), entity.type);
+    }
+
+    const kept: ExtractedRelationship[] = [];
+    for (const rel of recognized) {
+      const decision = checkEdge(
+        rel.type,
+        nodeTypes.get(this.normalizeName(rel.source)),
+        nodeTypes.get(this.normalizeName(rel.target)),
+        config.ontology.onViolation
+      );
+      recordViolation(violations, rel.type, decision);
+
+      if (decision.action === 'reject') {
+        console.warn(`Rejected relationship ${rel.source} -[${rel.type}]-> ${rel.target}: ${decision.reason}`);
+        continue;
+      }
+      if (decision.action === 'keep') {
+        kept.push(rel);
+        continue;
+      }
+
+      const flipped = decision.action === 'flip';
+      kept.push({
+        ...rel,
+        source: flipped ? rel.target : rel.source,
+        target: flipped ? rel.source : rel.target,
+        type: decision.type,
+        metadata: {
+          ...rel.metadata,
+          ontology: {
+            action: decision.action,
+            reason: decision.reason,
+            ...(decision.type !== rel.type && { original_type: rel.type }),
+          },
+        },
+      });
+    }
+
+    return { relationships: kept, violations };
   }
 
   /**
    * Fetch recent completed papers from the database to enable cross-paper relationship extraction.
+   * Without a database there are none, so prompts do not depend on the graph's contents.
    */
   private async getExistingPapers(): Promise<Array<{ title: string; arxiv_id?: string }>> {
+    if (!this.database) return [];
+
     try {
       const papers = await sql`
         SELECT title, arxiv_id
@@ -183,28 +1125,29 @@ export class AgentOrchestrator {
   }
 
   /**
-   * Log the results of extraction stages to the database.
+   * Log the results of extraction stages to the database,
+   * including the model, prompt version, token usage and estimated cost of the stage.
+   * Nothing is logged without a database.
    */
-  private async logExtraction(
-    paperId: string,
-    agentName: string,
-    extractionType: string,
-    inputData: Record<string, any>,
-    outputData: Record<string, any>,
-    success: boolean,
-    executionTimeMs: number,
-    errorMessage?: string
-  ): Promise<void> {
+  private async logExtraction(entry: ExtractionLogEntry): Promise<void> {
+    if (!this.database) return;
+
+    const { usage } = entry;
+    // Models actually billed (including a fallback model); cache hits bill none
+    const model = usage?.models?.length ? usage.models.join(', ') : entry.model;
+
     try {
       await sql`
         INSERT INTO extraction_logs (
-          paper_id, agent_name, extraction_type,
+          paper_id, run_id, agent_name, extraction_type,
           input_data, output_data,
-          success, error_message, execution_time_ms
+          success, error_message, execution_time_ms,
+          model, prompt_version, input_tokens, output_tokens, cost_usd
         ) VALUES (
-          ${paperId}, ${agentName}, ${extractionType},
-          ${JSON.stringify(inputData)}, ${JSON.stringify(outputData)},
-          ${success}, ${errorMessage || null}, ${executionTimeMs}
+          ${entry.paperId}, ${entry.runId || null}, ${entry.agentName}, ${entry.extractionType},
+          ${JSON.stringify(entry.inputData)}, ${JSON.stringify(entry.outputData)},
+          ${entry.success}, ${entry.errorMessage || null}, ${entry.executionTimeMs},
+          ${model || null}, ${entry.promptVersion || null}, ${usage?.input_tokens ?? 0}, ${usage?.output_tokens ?? 0}, ${usage?.cost_usd ?? 0}
         )
       `;
     } catch (error) {
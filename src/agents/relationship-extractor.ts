@@ -7,8 +7,15 @@
  */
 
 import { BaseAgent } from './base.js';
-import type { ExtractedEntity, ExtractedRelationship, Paper } from '../types/index.js';
+import type { ExtractedEntity, ExtractedRelationship, Paper, TokenUsage } from '../types/index.js';
 import { config } from '../config/index.js';
+import { ExtractedRelationshipSchema, RelationshipEnvelopeSchema, mergeValidationReports, partitionValid } from './schemas.js';
+import type { ValidationReport } from './schemas.js';
+import { aggregateSamples, sampleKey } from './consistency.js';
+import type { LLMMessage } from './base.js';
+import { addUsage, emptyUsage } from '../llm/index.js';
+import { loadPromptTemplate, renderTemplate } from '../prompts/index.js';
+import type { PromptTemplate } from '../prompts/index.js';
 
 /**
  * Input data for the RelationshipExtractorAgent
@@ -25,6 +32,8 @@ interface RelationshipExtractionInput {
  */
 interface RelationshipExtractionOutput {
   relationships: ExtractedRelationship[];
+  usage: TokenUsage;  // Tokens and estimated cost of the LLM call(s)
+  validation: ValidationReport;  // Repairs and dropped items
 }
 
 /**
@@ -35,8 +44,11 @@ interface RelationshipExtractionOutput {
  * scoring for quality knowledge graph construction.
  */
 export class RelationshipExtractorAgent extends BaseAgent {
+  protected prompt: PromptTemplate;
+
   constructor() {
     super('RelationshipExtractor', config.agents.relationshipExtraction);
+    this.prompt = loadPromptTemplate('relationship-extraction', config.agents.relationshipExtraction.promptVersion);
   }
 
   /**
@@ -44,42 +56,78 @@ export class RelationshipExtractorAgent extends BaseAgent {
    * 
    * Steps:
    *   1. Generate system and user prompts
-   *   2. Call LLM to extract relationships
-   *   3. Parse and normalize output
+   *   2. Call LLM to extract relationships (K times with self-consistency enabled)
+   *   3. Validate output against the schema (repairing if malformed)
    *   4. Filter invalid relationships
+   *   5. Merge samples, deriving confidence from agreement
    */
   async process(input: RelationshipExtractionInput): Promise<RelationshipExtractionOutput> {
     const { paper, entities, text, existingPapers } = input;
+    const { samples, temperature } = config.selfConsistency;
 
     // Build prompts for the LLM
-    const systemPrompt = this.getSystemPrompt();
-    const userPrompt = this.getUserPrompt(paper, entities, text, existingPapers);
-
-    // Call the LLM
-    const response = await this.callLLM([
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt },
-    ]);
-
-    // Parse JSON response
-    const parsed = this.parseJSON<{ relationships: ExtractedRelationship[] }>(response.content);
-
-    // Validate relationships: ensure source and target exist
-    const relationships = parsed.relationships
-      .filter((rel) => {
-        const sourceExists = entities.some((e) => e.name.toLowerCase() === rel.source.toLowerCase()) ||
-                             (existingPapers?.some((p) => p.title.toLowerCase() === rel.source.toLowerCase()));
-        const targetExists = entities.some((e) => e.name.toLowerCase() === rel.target.toLowerCase()) ||
-                             (existingPapers?.some((p) => p.title.toLowerCase() === rel.target.toLowerCase()));
-        return sourceExists && targetExists;
-      })
-      .map((rel) => ({
-        ...rel,
-        confidence: Math.max(0, Math.min(1, rel.confidence || 0.5)), // Normalize confidence to 0-1
-        metadata: rel.metadata || {},
-      }));
-
-    return { relationships };
+    const messages: LLMMessage[] = [
+      { role: 'system', content: this.getSystemPrompt() },
+      { role: 'user', content: this.getUserPrompt(paper, entities, text, existingPapers) },
+    ];
+
+    if (samples <= 1) {
+      return this.extractOnce(messages, entities, existingPapers);
+    }
+
+    const runs: RelationshipExtractionOutput[] = [];
+    for (let sample = 0; sample < samples; sample++) {
+      runs.push(await this.extractOnce(messages, entities, existingPapers, { temperature, sample }));
+    }
+
+    return {
+      relationships: aggregateSamples(
+        runs.map((run) => run.relationships),
+        (r) => sampleKey(r.type, r.source, r.target)
+      ),
+      usage: runs.reduce((total, run) => addUsage(total, run.usage), emptyUsage()),
+      validation: mergeValidationReports(runs.map((run) => run.validation)),
+    };
+  }
+
+  /**
+   * Run one extraction call, validate its relationships and keep those
+   * whose endpoints are known entities or papers.
+   */
+  private async extractOnce(
+    messages: LLMMessage[],
+    entities: ExtractedEntity[],
+    existingPapers?: Array<{ title: string; arxiv_id?: string }>,
+    options: { temperature?: number; sample?: number } = {}
+  ): Promise<RelationshipExtractionOutput> {
+    // Call the LLM and validate the response envelope (re-prompting on structural errors)
+    const { data, usage, repairErrors } = await this.callLLMForJSON(messages, RelationshipEnvelopeSchema, options);
+
+    // Validate each relationship, coercing near-misses and dropping invalid ones
+    const { valid, dropped } = partitionValid(data.relationships, ExtractedRelationshipSchema);
+
+    // Ensure source and target exist
+    const relationships = valid.filter((rel) => {
+      const sourceExists = entities.some((e) => e.name.toLowerCase() === rel.source.toLowerCase()) ||
+                           (existingPapers?.some((p) => p.title.toLowerCase() === rel.source.toLowerCase()));
+      const targetExists = entities.some((e) => e.name.toLowerCase() === rel.target.toLowerCase()) ||
+                           (existingPapers?.some((p) => p.title.toLowerCase() === rel.target.toLowerCase()));
+      if (!sourceExists || !targetExists) {
+        dropped.push({ item: rel, reason: 'source or target is not a known entity or paper' });
+        return false;
+      }
+      return true;
+    });
+
+    if (dropped.length > 0) {
+      console.warn(`Dropped ${dropped.length} invalid relationships`);
+    }
+
+    return {
+      relationships,
+      usage,
+      validation: { repair_attempts: repairErrors.length, repair_errors: repairErrors, dropped },
+    };
   }
 
   /**
@@ -88,49 +136,7 @@ export class RelationshipExtractorAgent extends BaseAgent {
    * and extraction guidelines.
    */
   private getSystemPrompt(): string {
-    return `You are an expert at identifying semantic relationships in academic research. Your task is to extract meaningful relationships between entities in research papers about Gaussian Splatting and neural rendering.
-
-RELATIONSHIP TYPES:
-
-Paper-to-Paper:
-- improves_on: Paper A improves upon Paper B's method
-- extends: Paper A extends Paper B's work in a new direction
-- compares_with: Paper A empirically compares with Paper B
-- builds_upon: Paper A builds upon Paper B's foundation
-- contradicts: Paper A's findings contradict Paper B
-
-Paper-to-Concept:
-- introduces: Paper introduces a new concept/method
-- applies: Paper applies an existing concept
-- evaluates: Paper evaluates a concept's performance
-- addresses: Paper addresses a challenge/problem
-
-Concept-to-Concept:
-- related_to: General semantic relationship
-- enables: Concept A enables Concept B
-- requires: Concept A requires Concept B
-- alternative_to: Concept A is an alternative to Concept B
-- generalizes: Concept A is a generalization of Concept B
-- specializes: Concept A is a specialization of Concept B
-
-Method Relationships:
-- outperforms: Method A outperforms Method B (with evidence)
-- combines_with: Method A combines with Method B
-- replaces: Method A replaces Method B
-
-Other:
-- uses_dataset: Paper/Method uses a Dataset
-- measures_with: Paper measures results with a Metric
-- solves: Method solves a Challenge
-
-EXTRACTION GUIDELINES:
-
-- Extract explicit relationships with evidence
-- Include quotes or context from the paper
-- Assign confidence based on evidence strength
-- Focus on technical relationships, not citations alone
-
-OUTPUT FORMAT: Valid JSON only, no markdown.`;
+    return this.prompt.system;
   }
 
   /**
@@ -143,7 +149,7 @@ OUTPUT FORMAT: Valid JSON only, no markdown.`;
     text: string,
     existingPapers?: Array<{ title: string; arxiv_id?: string }>
   ): string {
-    const maxLength = 15000;
+    const maxLength = config.extraction.singleCallMaxChars;
     const truncatedText = text.length > maxLength 
       ? text.substring(0, maxLength) + '\n\n[Text truncated...]'
       : text;
@@ -155,40 +161,11 @@ OUTPUT FORMAT: Valid JSON only, no markdown.`;
         existingPapers.slice(0, 50).map((p) => `- ${p.title}`).join('\n')
       : '';
 
-    return `Extract semantic relationships from this paper:
-
-PAPER: ${paper.title}
-
-EXTRACTED ENTITIES:
-${entityList}
-${existingPapersList}
-
-PAPER TEXT:
-${truncatedText}
-
-Identify meaningful relationships. Return JSON in this format:
-
-{
-  "relationships": [
-    {
-      "source": "Entity or Paper Name",
-      "target": "Entity or Paper Name",
-      "type": "improves_on|extends|introduces|applies|related_to|outperforms|etc",
-      "description": "Brief description of the relationship",
-      "evidence": "Direct quote or paraphrase from paper supporting this relationship",
-      "confidence": 0.9,
-      "metadata": {
-        "quantitative_improvement": "20% faster",
-        "section": "Results"
-      }
-    }
-  ]
-}
-
-Focus on 15-40 high-quality relationships. Prioritize:
-1. Paper-to-paper improvements/comparisons
-2. Novel concepts introduced
-3. Method combinations
-4. Performance comparisons with evidence`;
+    return renderTemplate(this.prompt.user, {
+      title: paper.title,
+      entity_list: entityList,
+      existing_papers: existingPapersList,
+      text: truncatedText,
+    });
   }
 }
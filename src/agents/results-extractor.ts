@@ -0,0 +1,115 @@
+/**
+ * Results Extraction Agent
+ *
+ * Specialized agent for reading the quantitative results a paper reports
+ * (method × dataset × metric → value) from its results tables and
+ * experiment sections, for cross-paper leaderboards.
+ */
+
+import { BaseAgent } from './base.js';
+import type { ExtractedEntity, ExtractedResult, Paper, TokenUsage } from '../types/index.js';
+import { config } from '../config/index.js';
+import { ExtractedResultSchema, ResultEnvelopeSchema, partitionValid } from './schemas.js';
+import type { ValidationReport } from './schemas.js';
+import { detectSections } from '../text/sections.js';
+import { loadPromptTemplate, renderTemplate } from '../prompts/index.js';
+import type { PromptTemplate } from '../prompts/index.js';
+
+// Sections that usually hold results tables
+const RESULTS_SECTION = /experiment|result|evaluation|ablation|comparison|benchmark/i;
+
+/**
+ * Whether a section title names a section that usually holds results tables.
+ */
+export function isResultsSection(title: string): boolean {
+  return RESULTS_SECTION.test(title);
+}
+
+/**
+ * Input data for the ResultsExtractorAgent
+ */
+interface ResultsExtractionInput {
+  paper: Paper;
+  text: string;  // Full text of the paper, or a chunk of it
+  entities: ExtractedEntity[];  // Entities extracted from the paper
+}
+
+/**
+ * Output from the ResultsExtractorAgent
+ */
+interface ResultsExtractionOutput {
+  results: ExtractedResult[];
+  usage: TokenUsage;  // Tokens and estimated cost of the LLM call(s)
+  validation: ValidationReport;  // Repairs and dropped items
+}
+
+/**
+ * Agent that extracts structured quantitative results using a language model.
+ */
+export class ResultsExtractorAgent extends BaseAgent {
+  protected prompt: PromptTemplate;
+
+  constructor() {
+    super('ResultsExtractor', config.agents.resultsExtraction);
+    this.prompt = loadPromptTemplate('results-extraction', config.agents.resultsExtraction.promptVersion);
+  }
+
+  /**
+   * Extract the results reported in a paper.
+   *
+   * @param input Paper, full text and the paper's entities
+   * @returns Validated results
+   */
+  async process(input: ResultsExtractionInput): Promise<ResultsExtractionOutput> {
+    const { paper, text, entities } = input;
+
+    const { data, usage, repairErrors } = await this.callLLMForJSON(
+      [
+        { role: 'system', content: this.prompt.system },
+        { role: 'user', content: this.getUserPrompt(paper, text, entities) },
+      ],
+      ResultEnvelopeSchema
+    );
+
+    // Validate each result, coercing near-misses ("27.21 dB") and dropping invalid ones
+    const { valid: results, dropped } = partitionValid(data.results, ExtractedResultSchema);
+    if (dropped.length > 0) {
+      console.warn(`Dropped ${dropped.length} invalid results`);
+    }
+
+    return {
+      results,
+      usage,
+      validation: { repair_attempts: repairErrors.length, repair_errors: repairErrors, dropped },
+    };
+  }
+
+  /**
+   * Constructs the user prompt with the paper's experiment and results
+   * sections (the whole text if none are found) and the known methods,
+   * datasets and metrics.
+   */
+  private getUserPrompt(paper: Paper, text: string, entities: ExtractedEntity[]): string {
+    const resultsText = detectSections(text)
+      .filter((section) => isResultsSection(section.title))
+      .map((section) => text.slice(section.start, section.end))
+      .join('\n\n');
+    const source = resultsText.trim().length > 0 ? resultsText : text;
+
+    const maxLength = config.extraction.singleCallMaxChars;
+    const truncatedText = source.length > maxLength
+      ? source.substring(0, maxLength) + '\n\n[Text truncated...]'
+      : source;
+
+    const entityList = entities
+      .filter((e) => e.type === 'method' || e.type === 'dataset' || e.type === 'metric')
+      .map((e) => `- ${e.name} (${e.type})`)
+      .join('\n');
+
+    return renderTemplate(this.prompt.user, {
+      title: paper.title,
+      entity_list: entityList || 'None extracted',
+      text: truncatedText,
+    });
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * Agent Output Schemas
+ *
+ * Zod schemas describing what the extraction agents must return.
+ * Envelopes (e.g. `{ entities: [...] }`) are validated strictly and trigger a
+ * repair re-prompt when malformed; individual items are validated leniently,
+ * coercing near-misses (type synonyms, percent confidences) and dropping the rest.
+ */
+
+import { z } from 'zod';
+import type {
+  EdgeType,
+  ExtractedEntity,
+  ExtractedRelationship,
+  ExtractedResult,
+  NodeType,
+  NormalizationDecision,
+  PaperSummary,
+  RelationshipVerdict,
+} from '../types/index.js';
+
+const NODE_TYPES = [
+  'paper', 'concept', 'method', 'dataset', 'metric',
+  'author', 'technique', 'application', 'challenge', 'result',
+] as const satisfies readonly NodeType[];
+
+const EDGE_TYPES = [
+  'cites', 'improves_on', 'extends', 'compares_with', 'builds_upon', 'contradicts',
+  'introduces', 'applies', 'evaluates', 'addresses',
+  'related_to', 'enables', 'requires', 'alternative_to', 'generalizes', 'specializes',
+  'outperforms', 'combines_with', 'replaces',
+  'authored_by',
+  'uses_dataset', 'measures_with', 'solves', 'inspired_by',
+] as const satisfies readonly EdgeType[];
+
+/**
+ * Common synonyms the models use for node types.
+ */
+const NODE_TYPE_ALIASES: Record<string, NodeType> = {
+  algorithm: 'method',
+  approach: 'method',
+  model: 'method',
+  architecture: 'method',
+  framework: 'method',
+  benchmark: 'dataset',
+  data: 'dataset',
+  measure: 'metric',
+  evaluation_metric: 'metric',
+  problem: 'challenge',
+  limitation: 'challenge',
+  use_case: 'application',
+  task: 'application',
+  idea: 'concept',
+  theory: 'concept',
+  finding: 'result',
+  outcome: 'result',
+  trick: 'technique',
+};
+
+/**
+ * Common synonyms the models use for edge types.
+ */
+const EDGE_TYPE_ALIASES: Record<string, EdgeType> = {
+  improves: 'improves_on',
+  improves_upon: 'improves_on',
+  extends_on: 'extends',
+  compared_with: 'compares_with',
+  compares_to: 'compares_with',
+  builds_on: 'builds_upon',
+  uses: 'applies',
+  use: 'applies',
+  proposes: 'introduces',
+  evaluated_on: 'uses_dataset',
+  evaluates_on: 'uses_dataset',
+  uses_data: 'uses_dataset',
+  measured_with: 'measures_with',
+  measures: 'measures_with',
+  better_than: 'outperforms',
+  outperformed: 'outperforms',
+  combined_with: 'combines_with',
+  related: 'related_to',
+  inspired: 'inspired_by',
+};
+
+/**
+ * Normalize an enum-ish label: lowercase, spaces and hyphens to underscores.
+ */
+function toLabel(value: unknown): unknown {
+  return typeof value === 'string'
+    ? value.trim().toLowerCase().replace(/[\s-]+/g, '_')
+    : value;
+}
+
+/**
+ * Confidence coerced into [0, 1]. Accepts numeric strings and percentages
+ * (e.g. 85 -> 0.85); anything unparseable becomes 0.5.
+ */
+const ConfidenceSchema = z
+  .preprocess((value) => (typeof value === 'string' ? Number(value) : value), z.number().finite())
+  .transform((value) => (value > 1 && value <= 100 ? value / 100 : value))
+  .transform((value) => Math.max(0, Math.min(1, value)))
+  .catch(0.5);
+
+const MetadataSchema = z.record(z.any()).catch({});
+
+const OptionalTextSchema = z
+  .preprocess((value) => (value === null ? undefined : value), z.string().trim().optional())
+  .catch(undefined);
+
+export const NodeTypeSchema = z.preprocess(
+  (value) => {
+    const label = toLabel(value);
+    return typeof label === 'string' ? NODE_TYPE_ALIASES[label] ?? label : label;
+  },
+  z.enum(NODE_TYPES)
+);
+
+export const EdgeTypeSchema = z.preprocess(
+  (value) => {
+    const label = toLabel(value);
+    return typeof label === 'string' ? EDGE_TYPE_ALIASES[label] ?? label : label;
+  },
+  z.enum(EDGE_TYPES)
+);
+
+export const ExtractedEntitySchema: z.ZodType<ExtractedEntity, z.ZodTypeDef, unknown> = z.object({
+  name: z.string().trim().min(1),
+  type: NodeTypeSchema,
+  description: OptionalTextSchema,
+  confidence: ConfidenceSchema,
+  context: OptionalTextSchema,
+  aliases: z.array(z.string()).optional().catch(undefined),
+  metadata: MetadataSchema.default({}),
+});
+
+export const ExtractedRelationshipSchema: z.ZodType<ExtractedRelationship, z.ZodTypeDef, unknown> = z.object({
+  source: z.string().trim().min(1),
+  target: z.string().trim().min(1),
+  type: EdgeTypeSchema,
+  description: OptionalTextSchema,
+  evidence: OptionalTextSchema,
+  confidence: ConfidenceSchema,
+  metadata: MetadataSchema.default({}),
+});
+
+/**
+ * Reported value coerced to a number. Accepts numeric strings with
+ * thousands separators, a trailing unit or a ± spread ("27.21", "1,024",
+ * "93.5%", "31.2 ± 0.4"); anything else drops the result.
+ */
+const ResultValueSchema = z.preprocess(
+  (value) => {
+    if (typeof value !== 'string') return value;
+    const match = /^[^\d+\-.]*([+-]?\d[\d,]*(?:\.\d+)?|[+-]?\.\d+)/.exec(value.trim());
+    return match ? Number(match[1].replace(/,/g, '')) : value;
+  },
+  z.number().finite()
+);
+
+const OptionalBooleanSchema = z
+  .preprocess(
+    (value) => (value === 'true' ? true : value === 'false' ? false : value ?? undefined),
+    z.boolean().optional()
+  )
+  .catch(undefined);
+
+export const ExtractedResultSchema: z.ZodType<ExtractedResult, z.ZodTypeDef, unknown> = z.object({
+  method: z.string().trim().min(1),
+  dataset: z.string().trim().min(1),
+  metric: z.string().trim().min(1),
+  value: ResultValueSchema,
+  unit: OptionalTextSchema,
+  higher_is_better: OptionalBooleanSchema,
+  setting: OptionalTextSchema,
+  evidence: OptionalTextSchema,
+  confidence: ConfidenceSchema,
+  metadata: MetadataSchema.default({}),
+});
+
+export const RelationshipVerdictSchema: z.ZodType<RelationshipVerdict, z.ZodTypeDef, unknown> = z.object({
+  index: z.coerce.number().int().min(0),
+  verdict: z.preprocess(toLabel, z.enum(['supported', 'unsupported', 'wrong_direction', 'wrong_type'])),
+  suggested_type: EdgeTypeSchema.optional().catch(undefined),
+  adjusted_confidence: ConfidenceSchema,
+  rationale: OptionalTextSchema,
+});
+
+export const NormalizationDecisionSchema: z.ZodType<NormalizationDecision, z.ZodTypeDef, unknown> = z.object({
+  index: z.coerce.number().int().min(0),
+  decision: z.preprocess(toLabel, z.enum(['new', 'alias'])),
+  alias_of: z.preprocess(
+    (value) => (typeof value === 'string' ? value.trim().toUpperCase() : value ?? undefined),
+    z.string().regex(/^[NE]\d+$/).optional()
+  ).catch(undefined),
+  confidence: ConfidenceSchema,
+  rationale: OptionalTextSchema,
+});
+
+/**
+ * List of short strings; non-string and blank entries are discarded.
+ */
+const TextListSchema = z
+  .preprocess(
+    (value) => (Array.isArray(value)
+      ? value.filter((item) => typeof item === 'string' && item.trim().length > 0).map((item) => item.trim())
+      : value),
+    z.array(z.string())
+  )
+  .catch([]);
+
+/**
+ * Summary returned by the summarization agent. The summary itself is
+ * required (a missing one triggers a repair); the lists are lenient.
+ */
+export const PaperSummarySchema: z.ZodType<PaperSummary, z.ZodTypeDef, unknown> = z.object({
+  summary: z.string().trim().min(1),
+  key_contributions: TextListSchema,
+  limitations: TextListSchema,
+});
+
+/**
+ * Envelope returned by the entity extractor. Items are validated separately.
+ */
+export const EntityEnvelopeSchema = z.object({
+  entities: z.array(z.unknown()),
+});
+
+/**
+ * Envelope returned by the relationship extractor. Items are validated separately.
+ */
+export const RelationshipEnvelopeSchema = z.object({
+  relationships: z.array(z.unknown()),
+});
+
+/**
+ * Envelope returned by the results extractor. Items are validated separately.
+ */
+export const ResultEnvelopeSchema = z.object({
+  results: z.array(z.unknown()),
+});
+
+/**
+ * Envelope returned by the validation agent. Items are validated separately.
+ */
+export const VerdictEnvelopeSchema = z.object({
+  verdicts: z.array(z.unknown()),
+});
+
+/**
+ * Envelope returned by the normalization agent. Items are validated separately.
+ */
+export const NormalizationEnvelopeSchema = z.object({
+  decisions: z.array(z.unknown()),
+});
+
+/**
+ * An item rejected during validation, with the reason.
+ */
+export interface DroppedItem {
+  item: unknown;
+  reason: string;
+}
+
+/**
+ * Record of everything validation had to fix or discard for one agent call.
+ */
+export interface ValidationReport {
+  repair_attempts: number;      // Re-prompts sent because the envelope was malformed
+  repair_errors: string[];      // Validation errors that triggered each re-prompt
+  dropped: DroppedItem[];       // Items discarded as invalid
+}
+
+/**
+ * Combine the validation reports of several calls (e.g. one per chunk).
+ */
+export function mergeValidationReports(reports: ValidationReport[]): ValidationReport {
+  return {
+    repair_attempts: reports.reduce((sum, report) => sum + report.repair_attempts, 0),
+    repair_errors: reports.flatMap((report) => report.repair_errors),
+    dropped: reports.flatMap((report) => report.dropped),
+  };
+}
+
+/**
+ * Validate items one by one, keeping valid (possibly coerced) items and
+ * collecting the invalid ones with a readable reason.
+ *
+ * @param items - Raw items from the LLM
+ * @param schema - Item schema
+ * @returns Valid items and dropped items
+ */
+export function partitionValid<T>(
+  items: unknown[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): { valid: T[]; dropped: DroppedItem[] } {
+  const valid: T[] = [];
+  const dropped: DroppedItem[] = [];
+
+  for (const item of items) {
+    const result = schema.safeParse(item);
+    if (result.success) {
+      valid.push(result.data);
+    } else {
+      dropped.push({ item, reason: formatZodError(result.error) });
+    }
+  }
+
+  return { valid, dropped };
+}
+
+/**
+ * Render a ZodError as a compact, model-readable list of issues.
+ */
+export function formatZodError(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+}
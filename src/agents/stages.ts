@@ -0,0 +1,150 @@
+/**
+ * Pipeline Stages
+ *
+ * The orchestrator runs a paper through a list of registered stages. Each
+ * stage declares the artifacts it reads and writes (entities, relationships,
+ * results, ...); `config.pipeline.stages` decides which stages run and in
+ * what order, and groups stages that may run in parallel. The plan is
+ * checked before a paper is processed, so a stage never runs before the
+ * artifacts it needs exist.
+ *
+ * Each stage's output can be saved as a checkpoint. A stage is skipped and its
+ * checkpoint restored when the checkpoint matches the stage version and the
+ * paper text and none of its inputs were produced anew in this run.
+ */
+
+import type { BaseAgent } from './base.js';
+import type {
+  ExtractedEntity,
+  ExtractedRelationship,
+  ExtractedResult,
+  OntologyViolationCounts,
+  Paper,
+  PaperSummary,
+  TokenUsage,
+} from '../types/index.js';
+import type { TextChunk } from '../text/sections.js';
+
+/**
+ * Everything the stages of one paper produce.
+ */
+export interface PaperArtifacts {
+  entities: ExtractedEntity[];
+  relationships: ExtractedRelationship[];
+  existingPapers: Array<{ title: string; arxiv_id?: string }>;  // Papers offered for cross-paper relationships
+  results: ExtractedResult[];
+  summary: PaperSummary;
+  ontology: OntologyViolationCounts;
+}
+
+/**
+ * Name of an artifact a stage reads or writes.
+ */
+export type ArtifactName = keyof PaperArtifacts;
+
+/**
+ * What a stage sees: the paper, its text and the artifacts produced so far.
+ */
+export interface StageContext {
+  paper: Paper;
+  fullText: string;
+  chunks: TextChunk[] | null;   // Section chunks; null means a single call with the whole text
+  artifacts: Partial<PaperArtifacts>;
+}
+
+/**
+ * Extraction log written for a stage that ran.
+ */
+export interface StageLog {
+  agentName: string;
+  extractionType: string;
+  inputData: Record<string, any>;
+  outputData: Record<string, any>;
+  agent?: BaseAgent;            // Agent whose model and prompt version are logged
+}
+
+/**
+ * What a stage returns: artifacts to add or replace, its LLM usage and its log.
+ */
+export interface StageOutput {
+  artifacts: Partial<PaperArtifacts>;
+  usage?: TokenUsage;
+  log?: StageLog;
+}
+
+/**
+ * A stage of the per-paper pipeline.
+ */
+export interface PipelineStage {
+  name: string;
+  description: string;          // Progress message, e.g. 'Extracting entities'
+  version?: string;             // Model, prompt and settings the output depends on; a change invalidates checkpoints
+  inputs: ArtifactName[];       // Artifacts that must exist before the stage runs
+  outputs: ArtifactName[];      // Artifacts the stage writes
+  enabled?: () => boolean;      // Config switch; disabled stages are left out of the plan
+  /**
+   * Run the stage. Returns null when there is nothing to do (e.g. no relationships to fact-check).
+   */
+  run(context: StageContext): Promise<StageOutput | null>;
+}
+
+/**
+ * One step of the configured plan: a stage name, or stage names run in parallel.
+ */
+export type StageStep = string | readonly string[];
+
+/**
+ * Resolve the configured steps to registered stages, dropping disabled ones.
+ *
+ * Throws if a step names an unknown stage, if a stage needs an artifact no
+ * earlier step produces, or if stages of a parallel group read or write each
+ * other's artifacts.
+ *
+ * @param steps - Stage names in order; nested lists run in parallel
+ * @param registry - Registered stages by name
+ * @returns Groups of stages; the stages of a group run in parallel
+ */
+export function planStages(
+  steps: readonly StageStep[],
+  registry: ReadonlyMap<string, PipelineStage>
+): PipelineStage[][] {
+  const available = new Set<ArtifactName>();
+  const plan: PipelineStage[][] = [];
+
+  for (const step of steps) {
+    const names = typeof step === 'string' ? [step] : step;
+    const group = names.map((name) => {
+      const stage = registry.get(name);
+      if (!stage) {
+        throw new Error(`Unknown pipeline stage: ${name} (registered: ${Array.from(registry.keys()).join(', ')})`);
+      }
+      return stage;
+    }).filter((stage) => stage.enabled?.() ?? true);
+
+    for (const stage of group) {
+      const missing = stage.inputs.filter((input) => !available.has(input));
+      if (missing.length > 0) {
+        throw new Error(`Pipeline stage ${stage.name} needs ${missing.join(', ')}, which no earlier stage produces`);
+      }
+
+      for (const other of group) {
+        if (other === stage) continue;
+        const clash = stage.outputs.filter((output) => other.inputs.includes(output) || other.outputs.includes(output));
+        if (clash.length > 0) {
+          throw new Error(
+            `Pipeline stages ${stage.name} and ${other.name} cannot run in parallel: both use ${clash.join(', ')}`
+          );
+        }
+      }
+    }
+
+    for (const stage of group) {
+      stage.outputs.forEach((output) => available.add(output));
+    }
+    if (group.length > 0) {
+      plan.push(group);
+    }
+  }
+
+  return plan;
+}
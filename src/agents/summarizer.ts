@@ -0,0 +1,97 @@
+/**
+ * Summarization Agent
+ *
+ * Produces a short "what this paper does" summary, the paper's key
+ * contributions and its stated limitations, for display next to the
+ * paper's title when browsing the graph.
+ */
+
+import { BaseAgent } from './base.js';
+import type { Paper, PaperSummary, TokenUsage } from '../types/index.js';
+import { config } from '../config/index.js';
+import { PaperSummarySchema } from './schemas.js';
+import type { ValidationReport } from './schemas.js';
+import { detectSections } from '../text/sections.js';
+import { loadPromptTemplate, renderTemplate } from '../prompts/index.js';
+import type { PromptTemplate } from '../prompts/index.js';
+
+// Sections that state what a paper does and where it falls short
+const SUMMARY_SECTION = /abstract|introduction|contribution|conclusion|limitation|discussion|future work/i;
+
+/**
+ * Input data for the SummarizationAgent
+ */
+interface SummarizationInput {
+  paper: Paper;
+  text: string;  // Full text of the paper
+}
+
+/**
+ * Output from the SummarizationAgent
+ */
+interface SummarizationOutput extends PaperSummary {
+  usage: TokenUsage;  // Tokens and estimated cost of the LLM call(s)
+  validation: ValidationReport;  // Repairs and dropped items
+}
+
+/**
+ * Agent that summarizes a paper using a language model.
+ */
+export class SummarizationAgent extends BaseAgent {
+  protected prompt: PromptTemplate;
+
+  constructor() {
+    super('Summarizer', config.agents.summarization);
+    this.prompt = loadPromptTemplate('summarization', config.agents.summarization.promptVersion);
+  }
+
+  /**
+   * Summarize a paper.
+   *
+   * @param input Paper and text to summarize
+   * @returns Summary, key contributions and limitations
+   */
+  async process(input: SummarizationInput): Promise<SummarizationOutput> {
+    const { paper, text } = input;
+
+    const { data, usage, repairErrors } = await this.callLLMForJSON(
+      [
+        { role: 'system', content: this.prompt.system },
+        { role: 'user', content: this.getUserPrompt(paper, text) },
+      ],
+      PaperSummarySchema
+    );
+
+    return {
+      ...data,
+      usage,
+      validation: { repair_attempts: repairErrors.length, repair_errors: repairErrors, dropped: [] },
+    };
+  }
+
+  /**
+   * Constructs the user prompt with the paper's title, abstract and the
+   * sections a summary draws on (introduction, conclusion, limitations),
+   * or the whole text if none are found. Text longer than a single call
+   * keeps its beginning and end.
+   */
+  private getUserPrompt(paper: Paper, text: string): string {
+    const summaryText = detectSections(text)
+      .filter((section) => SUMMARY_SECTION.test(section.title))
+      .map((section) => text.slice(section.start, section.end))
+      .join('\n\n');
+    const source = summaryText.trim().length > 0 ? summaryText : text;
+
+    const maxLength = config.extraction.singleCallMaxChars;
+    const tailLength = Math.floor(maxLength / 4);
+    const excerpt = source.length > maxLength
+      ? source.substring(0, maxLength - tailLength) + '\n\n[Text truncated...]\n\n' + source.substring(source.length - tailLength)
+      : source;
+
+    return renderTemplate(this.prompt.user, {
+      title: paper.title,
+      abstract: paper.abstract || 'Not available',
+      text: excerpt,
+    });
+  }
+}
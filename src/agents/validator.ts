@@ -0,0 +1,164 @@
+/**
+ * Validation Agent
+ *
+ * Fact-checks extracted relationships against the paper text. Each
+ * relationship is sent with its evidence and the passage around it, and the
+ * LLM returns a verdict (supported, unsupported, wrong direction, wrong type)
+ * together with an adjusted confidence. Applying the verdicts is left to the
+ * orchestrator.
+ */
+
+import { BaseAgent } from './base.js';
+import type { ExtractedRelationship, Paper, RelationshipVerdict, TokenUsage } from '../types/index.js';
+import { config } from '../config/index.js';
+import { RelationshipVerdictSchema, VerdictEnvelopeSchema, partitionValid } from './schemas.js';
+import type { DroppedItem, ValidationReport } from './schemas.js';
+import { loadPromptTemplate, renderTemplate } from '../prompts/index.js';
+import type { PromptTemplate } from '../prompts/index.js';
+import { addUsage, emptyUsage } from '../llm/index.js';
+
+/**
+ * Input data for the ValidationAgent
+ */
+interface RelationshipValidationInput {
+  paper: Paper;
+  relationships: ExtractedRelationship[];  // Relationships to fact-check
+  text: string;  // Full text of the paper, used to locate the evidence
+}
+
+/**
+ * Output from the ValidationAgent
+ */
+interface RelationshipValidationOutput {
+  verdicts: Array<RelationshipVerdict | undefined>;  // Aligned with the input; undefined if the model returned none
+  usage: TokenUsage;  // Tokens and estimated cost of the LLM call(s)
+  validation: ValidationReport;  // Repairs and dropped items
+}
+
+// Characters of paper text shown on each side of the located evidence
+const CONTEXT_CHARS = 400;
+
+/**
+ * ValidationAgent
+ *
+ * Uses an LLM to verify each relationship against its evidence and
+ * surrounding text, in batches of `config.agents.validation.batchSize`.
+ */
+export class ValidationAgent extends BaseAgent {
+  protected prompt: PromptTemplate;
+
+  constructor() {
+    super('Validator', config.agents.validation);
+    this.prompt = loadPromptTemplate('validation', config.agents.validation.promptVersion);
+  }
+
+  /**
+   * Fact-check relationships.
+   *
+   * Steps:
+   *   1. Split relationships into batches
+   *   2. Build a prompt with each relationship, its evidence and surrounding text
+   *   3. Call the LLM and validate the verdicts
+   *   4. Align verdicts with the input relationships
+   *
+   * @param input Paper, relationships and full text
+   * @returns One verdict slot per input relationship
+   */
+  async process(input: RelationshipValidationInput): Promise<RelationshipValidationOutput> {
+    const { paper, relationships, text } = input;
+    const batchSize = config.agents.validation.batchSize;
+
+    const verdicts: Array<RelationshipVerdict | undefined> = new Array(relationships.length).fill(undefined);
+    const repairErrors: string[] = [];
+    const dropped: DroppedItem[] = [];
+    let usage = emptyUsage();
+
+    for (let offset = 0; offset < relationships.length; offset += batchSize) {
+      const batch = relationships.slice(offset, offset + batchSize);
+
+      const result = await this.callLLMForJSON(
+        [
+          { role: 'system', content: this.prompt.system },
+          { role: 'user', content: this.getUserPrompt(paper, batch, text) },
+        ],
+        VerdictEnvelopeSchema
+      );
+      usage = addUsage(usage, result.usage);
+      repairErrors.push(...result.repairErrors);
+
+      const { valid, dropped: invalid } = partitionValid(result.data.verdicts, RelationshipVerdictSchema);
+      dropped.push(...invalid);
+
+      // Indices in the prompt are batch-local
+      for (const verdict of valid) {
+        if (verdict.index >= batch.length) {
+          dropped.push({ item: verdict, reason: `index ${verdict.index} is out of range` });
+          continue;
+        }
+        verdicts[offset + verdict.index] = { ...verdict, index: offset + verdict.index };
+      }
+    }
+
+    const missing = verdicts.filter((v) => v === undefined).length;
+    if (missing > 0) {
+      console.warn(`Validator returned no verdict for ${missing} relationships`);
+    }
+
+    return {
+      verdicts,
+      usage,
+      validation: { repair_attempts: repairErrors.length, repair_errors: repairErrors, dropped },
+    };
+  }
+
+  /**
+   * Constructs the user prompt listing each relationship with its evidence
+   * and the passage of the paper it was found in.
+   */
+  private getUserPrompt(paper: Paper, relationships: ExtractedRelationship[], text: string): string {
+    const list = relationships
+      .map((rel, index) => [
+        `[${index}] ${rel.source} --${rel.type}--> ${rel.target}`,
+        rel.description ? `Description: ${rel.description}` : null,
+        `Evidence: ${rel.evidence ? `"${rel.evidence}"` : '(none given)'}`,
+        `Surrounding text: ${this.findContext(rel, text)}`,
+      ].filter(Boolean).join('\n'))
+      .join('\n\n');
+
+    return renderTemplate(this.prompt.user, {
+      title: paper.title,
+      relationships: list,
+    });
+  }
+
+  /**
+   * Locate the passage supporting a relationship: the grounded evidence span
+   * if grounding located it, else the evidence quote if it appears verbatim,
+   * otherwise the first mention of the source entity.
+   */
+  private findContext(rel: ExtractedRelationship, text: string): string {
+    const grounding = rel.metadata?.grounding;
+    if (grounding?.located) {
+      const start = Math.max(0, grounding.start - CONTEXT_CHARS);
+      const end = Math.min(text.length, grounding.end + CONTEXT_CHARS);
+      return `"...${text.slice(start, end).replace(/\s+/g, ' ').trim()}..."`;
+    }
+
+    const haystack = text.toLowerCase();
+    const needles = [
+      rel.evidence?.slice(0, 80),
+      rel.source,
+    ].filter((n): n is string => Boolean(n && n.trim()));
+
+    for (const needle of needles) {
+      const position = haystack.indexOf(needle.toLowerCase());
+      if (position >= 0) {
+        const start = Math.max(0, position - CONTEXT_CHARS);
+        const end = Math.min(text.length, position + needle.length + CONTEXT_CHARS);
+        return `"...${text.slice(start, end).replace(/\s+/g, ' ').trim()}..."`;
+      }
+    }
+
+    return '(not found in paper text)';
+  }
+}
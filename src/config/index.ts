@@ -7,10 +7,27 @@
  */
 
 import dotenv from 'dotenv';
+import type { ExtractionMode, LLMProviderName, OntologyViolationPolicy } from '../types/index.js';
+import type { CassetteMode } from '../llm/cassette.js';
 
 // Load environment variables from a .env file
 dotenv.config();
 
+/**
+ * Parse a JSON-valued environment variable, falling back when unset.
+ * Throws if the variable is set but is not valid JSON.
+ */
+function jsonEnv<T>(name: string, fallback: T): T {
+  const value = process.env[name];
+  if (!value) return fallback;
+
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    throw new Error(`Environment variable ${name} must be valid JSON`);
+  }
+}
+
 /**
  * Main configuration object
  */
@@ -20,48 +37,245 @@ export const config = {
     url: process.env.DATABASE_URL || 'postgresql://localhost:5432/research_kg',
     // Enable SSL if specified in environment
     ssl: process.env.DATABASE_SSL === 'true',
+    // Times a transaction is re-run after a deadlock or serialization failure
+    transactionRetries: Number(process.env.DATABASE_TRANSACTION_RETRIES || 3),
   },
   
   llm: {
-    provider: 'openai' as const,
+    // Default provider for all agents ('openai' or 'anthropic')
+    provider: (process.env.LLM_PROVIDER || 'openai') as LLMProviderName,
     openai: {
       // API key for OpenAI access
       apiKey: process.env.OPENAI_API_KEY || '',
       // Model to use for LLM queries
       model: process.env.OPENAI_MODEL || 'gpt-4-turbo-preview',
+      // Base URL for OpenAI-compatible servers (vLLM, llama.cpp, Ollama); unset = api.openai.com
+      baseURL: process.env.OPENAI_BASE_URL || undefined,
+      // Extra headers sent with every request, as a JSON object
+      headers: jsonEnv<Record<string, string>>('OPENAI_EXTRA_HEADERS', {}),
+      // Request timeout (ms)
+      timeoutMs: Number(process.env.OPENAI_TIMEOUT_MS || 600000),
+      // Map of requested model name -> model name served by the backend, as a JSON object
+      modelAliases: jsonEnv<Record<string, string>>('OPENAI_MODEL_ALIASES', {}),
+      capabilities: {
+        // Whether the backend accepts response_format: { type: 'json_object' }
+        jsonMode: process.env.OPENAI_SUPPORTS_JSON_MODE !== 'false',
+      },
+    },
+    anthropic: {
+      // API key for Anthropic access
+      apiKey: process.env.ANTHROPIC_API_KEY || '',
+      // Model to use for LLM queries
+      model: process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-20240620',
+    },
+    // Price table in USD per 1M tokens, keyed by model name.
+    // Extend or override with LLM_PRICING='{"model":{"input":1,"output":2}}'.
+    pricing: {
+      'gpt-4-turbo-preview': { input: 10, output: 30 },
+      'gpt-4-turbo': { input: 10, output: 30 },
+      'gpt-4o': { input: 5, output: 15 },
+      'gpt-4o-mini': { input: 0.15, output: 0.6 },
+      'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+      'claude-3-5-sonnet-20240620': { input: 3, output: 15 },
+      'claude-3-opus-20240229': { input: 15, output: 75 },
+      'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+      ...jsonEnv<Record<string, { input: number; output: number }>>('LLM_PRICING', {}),
+    } as Record<string, { input: number; output: number }>,
+    // Shared limits across all agents in the process; 0 disables a limit
+    rateLimit: {
+      requestsPerMinute: Number(process.env.LLM_REQUESTS_PER_MINUTE || 60),
+      tokensPerMinute: Number(process.env.LLM_TOKENS_PER_MINUTE || 150000),
+    },
+    cache: {
+      // Content-addressed response cache in Postgres (skipped in cassette record/replay)
+      enabled: process.env.LLM_CACHE_ENABLED !== 'false',
+      // Skip cache reads but still write fresh responses
+      bypass: process.env.LLM_CACHE_BYPASS === 'true',
+      // Entry lifetime in seconds; 0 = never expire (default 30 days)
+      ttlSeconds: Number(process.env.LLM_CACHE_TTL_SECONDS ?? 30 * 24 * 3600),
+    },
+    cassette: {
+      // 'off' (live calls), 'record' (live calls saved to disk) or 'replay' (disk only)
+      mode: (process.env.LLM_CASSETTE_MODE || 'off') as CassetteMode,
+      // Directory holding recorded request/response pairs
+      dir: process.env.LLM_CASSETTE_DIR || 'cassettes',
     },
   },
   
   agents: {
     // Configuration for the entity extraction agent
     entityExtraction: {
+      // Optional provider override (falls back to llm.provider)
+      provider: process.env.ENTITY_EXTRACTION_PROVIDER as LLMProviderName | undefined,
+      // Optional model override (falls back to the provider's default model)
+      model: process.env.ENTITY_EXTRACTION_MODEL,
+      // Model retried on the same provider when the agent's model fails
+      fallbackModel: process.env.ENTITY_EXTRACTION_FALLBACK_MODEL,
+      // Prompt template version under src/prompts/
+      promptVersion: process.env.ENTITY_EXTRACTION_PROMPT_VERSION || 'v1',
       temperature: 0.3,
       maxTokens: 4000,
     },
     // Configuration for the relationship extraction agent
     relationshipExtraction: {
+      provider: process.env.RELATIONSHIP_EXTRACTION_PROVIDER as LLMProviderName | undefined,
+      model: process.env.RELATIONSHIP_EXTRACTION_MODEL,
+      fallbackModel: process.env.RELATIONSHIP_EXTRACTION_FALLBACK_MODEL,
+      // Prompt template version under src/prompts/
+      promptVersion: process.env.RELATIONSHIP_EXTRACTION_PROMPT_VERSION || 'v1',
       temperature: 0.2,
       maxTokens: 4000,
     },
     // Configuration for the validation agent
     validation: {
+      // Fact-check extracted relationships against their evidence
+      enabled: process.env.VALIDATION_ENABLED !== 'false',
+      provider: process.env.VALIDATION_PROVIDER as LLMProviderName | undefined,
+      model: process.env.VALIDATION_MODEL,
+      fallbackModel: process.env.VALIDATION_FALLBACK_MODEL,
+      promptVersion: process.env.VALIDATION_PROMPT_VERSION || 'v1',
       temperature: 0.1,
       maxTokens: 2000,
+      // Relationships verified per LLM call
+      batchSize: 20,
+      // Relationships whose adjusted confidence falls below this are dropped
+      minConfidence: 0.3,
     },
     // Configuration for the normalization agent
     normalization: {
+      // Link new entities to existing nodes and record aliases
+      enabled: process.env.NORMALIZATION_ENABLED !== 'false',
+      provider: process.env.NORMALIZATION_PROVIDER as LLMProviderName | undefined,
+      model: process.env.NORMALIZATION_MODEL,
+      fallbackModel: process.env.NORMALIZATION_FALLBACK_MODEL,
+      promptVersion: process.env.NORMALIZATION_PROMPT_VERSION || 'v1',
       temperature: 0.0,
+      maxTokens: 2000,
+      // Entities decided per LLM call
+      batchSize: 20,
+      // Existing nodes offered per entity
+      candidatesPerEntity: 5,
+      // Alias decisions below this confidence are treated as new entities
+      minConfidence: 0.7,
+    },
+    resultsExtraction: {
+      // Method × dataset × metric → value results for leaderboards
+      enabled: process.env.RESULTS_EXTRACTION_ENABLED !== 'false',
+      provider: process.env.RESULTS_EXTRACTION_PROVIDER as LLMProviderName | undefined,
+      model: process.env.RESULTS_EXTRACTION_MODEL,
+      fallbackModel: process.env.RESULTS_EXTRACTION_FALLBACK_MODEL,
+      promptVersion: process.env.RESULTS_EXTRACTION_PROMPT_VERSION || 'v1',
+      temperature: 0.1,
+      maxTokens: 4000,
+    },
+    summarization: {
+      // Summary, key contributions and limitations per paper
+      enabled: process.env.SUMMARIZATION_ENABLED !== 'false',
+      provider: process.env.SUMMARIZATION_PROVIDER as LLMProviderName | undefined,
+      model: process.env.SUMMARIZATION_MODEL,
+      fallbackModel: process.env.SUMMARIZATION_FALLBACK_MODEL,
+      promptVersion: process.env.SUMMARIZATION_PROMPT_VERSION || 'v1',
+      temperature: 0.2,
       maxTokens: 1000,
     },
   },
   
+  pipeline: {
+    // Orchestrator stages run per paper, in order; a nested list runs its stages in parallel.
+    // Stages switched off below (e.g. agents.validation.enabled) are skipped.
+    stages: jsonEnv<Array<string | string[]>>('PIPELINE_STAGES', [
+      'entities',
+      'relationships',
+      'grounding',
+      'fact_check',
+      'canonicalize',
+      'validate',
+      ['results', 'summary'],
+    ]),
+  },
+
+  checkpoints: {
+    // Save each stage's output per paper and resume from the first stage without a valid checkpoint
+    enabled: process.env.CHECKPOINTS_ENABLED !== 'false',
+  },
+  reprocessing: {
+    // Where reprocessPaper writes the assertions it added, removed and changed (JSON and markdown)
+    reportDir: process.env.REPROCESSING_REPORT_DIR || 'reports/reprocessing',
+  },
+
+  extraction: {
+    // 'single', 'chunked' or 'auto' (chunk only texts longer than singleCallMaxChars)
+    mode: (process.env.EXTRACTION_MODE || 'auto') as ExtractionMode,
+    // Longest text sent in a single extraction call; longer text is truncated in 'single' mode
+    singleCallMaxChars: 15000,
+    // Upper bound on chunk length in chunked mode (at most singleCallMaxChars)
+    chunkSize: Number(process.env.EXTRACTION_CHUNK_SIZE || 12000),
+    // Text repeated between pieces of a section that is split across chunks
+    chunkOverlap: 500,
+    // Sections never sent to the extractors
+    excludeSections: /^(references|bibliography|acknowledge?ments?)$/i,
+  },
+
+  selfConsistency: {
+    // Samples per extraction call; 1 disables self-consistency sampling
+    samples: Number(process.env.SELF_CONSISTENCY_SAMPLES || 1),
+    // Sampling temperature used when samples > 1
+    temperature: Number(process.env.SELF_CONSISTENCY_TEMPERATURE || 0.7),
+    // Weight of cross-sample agreement vs. the model's self-reported confidence
+    agreementWeight: 0.7,
+    // Items found in a smaller fraction of samples are dropped (0 keeps everything)
+    minAgreement: Number(process.env.SELF_CONSISTENCY_MIN_AGREEMENT || 0),
+  },
+
+  grounding: {
+    // Locate evidence and context quotes in the full text and store their offsets
+    enabled: process.env.GROUNDING_ENABLED !== 'false',
+    // Fuzzy matches scoring below this count as not located
+    minScore: 0.6,
+    // Confidence multiplier for items whose quote cannot be located
+    unlocatedPenalty: Number(process.env.GROUNDING_UNLOCATED_PENALTY || 0.5),
+  },
+
+  ontology: {
+    // Enforce edge domain/range rules (src/ontology) on extracted relationships
+    enabled: process.env.ONTOLOGY_ENABLED !== 'false',
+    // 'reject', 'flip' (reverse when the reversed edge fits) or 'retype' (flip, else try alternative edge types)
+    onViolation: (process.env.ONTOLOGY_ON_VIOLATION || 'retype') as OntologyViolationPolicy,
+  },
+
+  citations: {
+    // Parse each paper's reference list into `cites` edges (no LLM calls)
+    enabled: process.env.CITATIONS_ENABLED !== 'false',
+    // Create stub paper nodes for references that match no paper in the graph
+    createStubs: process.env.CITATION_STUBS_ENABLED === 'true',
+    // Minimum trigram similarity for a reference title to match a paper node
+    minTitleSimilarity: Number(process.env.CITATION_MIN_TITLE_SIMILARITY || 0.7),
+  },
+
+  authors: {
+    // Create author nodes and `authored_by` edges from paper metadata
+    enabled: process.env.AUTHORS_ENABLED !== 'false',
+    // Co-authors a name variant ("G. Drettakis") must share with an existing
+    // author ("George Drettakis") to be merged into it
+    minCoauthorOverlap: Number(process.env.AUTHOR_MIN_COAUTHOR_OVERLAP || 1),
+  },
+
+  budget: {
+    // Hard cap on estimated LLM spend per ingestion run (USD); 0 disables the cap
+    maxCostUsd: Number(process.env.LLM_BUDGET_USD || 0),
+  },
+
   processing: {
     // Default batch size for paper ingestion
     batchSize: 5,
-    // Number of retry attempts for failed operations
-    retryAttempts: 3,
-    // Delay between retries (ms)
+    // Number of retry attempts for transient LLM failures (429, timeouts, 5xx)
+    retryAttempts: Number(process.env.LLM_RETRY_ATTEMPTS || 3),
+    // Base delay for exponential backoff between retries (ms)
     retryDelay: 1000,
+    // Upper bound for a single backoff delay, including Retry-After hints (ms)
+    maxRetryDelay: 60000,
+    // Re-prompts allowed when an agent response fails schema validation
+    maxRepairAttempts: Number(process.env.MAX_REPAIR_ATTEMPTS || 2),
   },
 } as const;
 
@@ -69,9 +283,52 @@ export const config = {
  * Validates that required environment variables are present.
  * 
  * Throws an error if any required variable is missing.
+ *
+ * @param options.database - false for commands that never connect to the database
+ *   (evaluation), which then do not need DATABASE_URL
  */
-export function validateConfig(): void {
-  const requiredEnvVars = ['DATABASE_URL', 'OPENAI_API_KEY'];
+export function validateConfig(options: { database?: boolean } = {}): void {
+  const requiredEnvVars = options.database === false ? [] : ['DATABASE_URL'];
+
+  const { mode } = config.llm.cassette;
+  if (mode !== 'off' && mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Invalid LLM_CASSETTE_MODE: ${mode} (expected off, record or replay)`);
+  }
+
+  if (!['single', 'chunked', 'auto'].includes(config.extraction.mode)) {
+    throw new Error(`Invalid EXTRACTION_MODE: ${config.extraction.mode} (expected single, chunked or auto)`);
+  }
+
+  // Each extraction call is cut at singleCallMaxChars, so a larger chunk would lose its end
+  const { chunkSize, singleCallMaxChars } = config.extraction;
+  if (!(chunkSize > 0 && chunkSize <= singleCallMaxChars)) {
+    throw new Error(`Invalid EXTRACTION_CHUNK_SIZE: ${chunkSize} (expected a number from 1 to ${singleCallMaxChars})`);
+  }
+
+  if (!['reject', 'flip', 'retype'].includes(config.ontology.onViolation)) {
+    throw new Error(`Invalid ONTOLOGY_ON_VIOLATION: ${config.ontology.onViolation} (expected reject, flip or retype)`);
+  }
+
+  // Require credentials for every provider that some agent will use.
+  // Replay mode never reaches a provider, so no keys are needed.
+  const providers = new Set<LLMProviderName>([
+    config.llm.provider,
+    ...Object.values(config.agents)
+      .map((agent) => agent.provider)
+      .filter((provider): provider is LLMProviderName => Boolean(provider)),
+  ]);
+  for (const provider of mode === 'replay' ? [] : providers) {
+    if (provider === 'openai') {
+      // Self-hosted OpenAI-compatible servers usually do not check keys
+      if (!config.llm.openai.baseURL) {
+        requiredEnvVars.push('OPENAI_API_KEY');
+      }
+    } else if (provider === 'anthropic') {
+      requiredEnvVars.push('ANTHROPIC_API_KEY');
+    } else {
+      throw new Error(`Unknown LLM provider: ${provider}`);
+    }
+  }
 
   // Check for missing variables
   const missing = requiredEnvVars.filter(
@@ -49,11 +49,29 @@ export async function closeDatabaseConnection(): Promise<void> {
   console.log('Database connection closed');
 }
 
+/**
+ * Compare two sort keys by code unit, independent of locale.
+ * Transactions that write shared rows in this order lock them in the same
+ * order, so they wait for each other instead of deadlocking.
+ */
+export function compareLockKeys(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Postgres errors after which re-running the whole transaction may succeed
+const RETRYABLE_TRANSACTION_ERRORS = new Set([
+  '40P01', // deadlock_detected
+  '40001', // serialization_failure
+]);
+
 /**
  * Transaction helper
  * 
  * Executes the provided callback inside a database transaction.
- * Rolls back automatically if the callback throws an error.
+ * Rolls back automatically if the callback throws an error. A transaction
+ * aborted by a deadlock or serialization failure is re-run from the start,
+ * up to `config.database.transactionRetries` times, so the callback must
+ * not have side effects outside the transaction.
  * 
  * @param callback - Function that receives a transactional Sql client
  * @returns The result of the callback function
@@ -61,11 +79,25 @@ export async function closeDatabaseConnection(): Promise<void> {
 export async function withTransaction<T>(
   callback: (sqlClient: Sql) => Promise<T> | T
 ): Promise<T> {
-  const result = await sql.begin(async (txSql) => {
-    // txSql is the transactional client provided by postgres
-    return callback(txSql as unknown as Sql);
-  });
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const result = await sql.begin(async (txSql) => {
+        // txSql is the transactional client provided by postgres
+        return callback(txSql as unknown as Sql);
+      });
+
+      // postgres.begin returns UnwrapPromiseArray<T>; cast to T for type consistency
+      return result as unknown as T;
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      if (!code || !RETRYABLE_TRANSACTION_ERRORS.has(code) || attempt >= config.database.transactionRetries) {
+        throw error;
+      }
 
-  // postgres.begin returns UnwrapPromiseArray<T>; cast to T for type consistency
-  return result as unknown as T;
+      // Back off with jitter so the competing transactions do not collide again
+      const delayMs = 100 * 2 ** attempt + Math.random() * 100;
+      console.warn(`Transaction aborted (${code}); retrying in ${Math.round(delayMs)}ms (${attempt + 1}/${config.database.transactionRetries})`);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
 }
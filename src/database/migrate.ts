@@ -173,6 +173,9 @@ async function migrate() {
         } else if (statement.includes('CREATE MATERIALIZED VIEW')) {
           const viewName = statement.match(/CREATE MATERIALIZED VIEW (\w+)/)?.[1];
           console.log(`✓ Created materialized view: ${viewName}`);
+        } else if (statement.includes('CREATE VIEW')) {
+          const viewName = statement.match(/CREATE VIEW (\w+)/)?.[1];
+          console.log(`✓ Created view: ${viewName}`);
         } else if (statement.includes('CREATE FUNCTION')) {
           const funcName = statement.match(/CREATE (?:OR REPLACE )?FUNCTION (\w+)/)?.[1];
           console.log(`✓ Created function: ${funcName}`);
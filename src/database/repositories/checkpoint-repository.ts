@@ -0,0 +1,60 @@
+/**
+ * Checkpoint Repository
+ *
+ * Handles database operations for per-stage processing checkpoints, including:
+ * - Loading the checkpoints of a paper
+ * - Saving (replacing) a stage's output
+ */
+
+import { sql } from '../client.js';
+import type { Sql } from 'postgres';
+import type { StageCheckpoint } from '../../types/index.js';
+
+export class CheckpointRepository {
+  /**
+   * @param db - Database client; pass a transaction's client to run the queries inside it
+   */
+  constructor(private db: Sql = sql) {}
+
+  /**
+   * Get every checkpoint of a paper.
+   *
+   * @param paperId - Paper ID
+   * @returns Checkpoints keyed by stage name
+   */
+  async findForPaper(paperId: string): Promise<Map<string, StageCheckpoint>> {
+    const rows = await this.db<StageCheckpoint[]>`
+      SELECT * FROM stage_checkpoints
+      WHERE paper_id = ${paperId}
+    `;
+    return new Map(rows.map((row) => [row.stage, row]));
+  }
+
+  /**
+   * Save the output of a stage, replacing its previous checkpoint.
+   *
+   * @param paperId - Paper ID
+   * @param stage - Stage name
+   * @param stageVersion - Stage version the output was produced with
+   * @param inputHash - Hash of the paper text
+   * @param artifacts - Artifacts the stage wrote
+   */
+  async save(
+    paperId: string,
+    stage: string,
+    stageVersion: string,
+    inputHash: string,
+    artifacts: Record<string, any>
+  ): Promise<void> {
+    await this.db`
+      INSERT INTO stage_checkpoints (paper_id, stage, stage_version, input_hash, artifacts)
+      VALUES (${paperId}, ${stage}, ${stageVersion}, ${inputHash}, ${JSON.stringify(artifacts)})
+      ON CONFLICT (paper_id, stage)
+      DO UPDATE SET
+        stage_version = EXCLUDED.stage_version,
+        input_hash = EXCLUDED.input_hash,
+        artifacts = EXCLUDED.artifacts,
+        created_at = NOW()
+    `;
+  }
+}
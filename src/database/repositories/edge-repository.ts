@@ -4,21 +4,38 @@
  * Handles all database interactions for graph edges (relationships) 
  * in the Research Knowledge Graph system. Responsible for:
  * - Creating edges (with conflict resolution)
- * - Batch insertion from extracted relationships
+ * - Batch insertion from extracted relationships, enforcing the ontology and
+ *   recording each paper's mentions
  * - Resolving entity names to node IDs
- * - Querying edges by source or target
+ * - Querying edges by source or target, and co-authors
  * - Gathering edge statistics
  */
 
-import { sql } from '../client.js';
-import type { Edge, EdgeType, ExtractedRelationship } from '../../types/index.js';
+import { compareLockKeys, sql } from '../client.js';
+import type { Sql } from 'postgres';
+import type {
+  Edge,
+  EdgeType,
+  ExtractedRelationship,
+  Node,
+  NodeType,
+  OntologyViolationCounts,
+} from '../../types/index.js';
 import { NodeRepository } from './node-repository.js';
+import { MentionRepository } from './mention-repository.js';
+import { checkEdge, emptyViolationCounts, recordViolation } from '../../ontology/index.js';
+import { config } from '../../config/index.js';
 
 export class EdgeRepository {
   private nodeRepo: NodeRepository;
+  private mentionRepo: MentionRepository;
 
-  constructor() {
-    this.nodeRepo = new NodeRepository();
+  /**
+   * @param db - Database client; pass a transaction's client to run the queries inside it
+   */
+  constructor(private db: Sql = sql) {
+    this.nodeRepo = new NodeRepository(db);
+    this.mentionRepo = new MentionRepository(db);
   }
 
   /**
@@ -48,7 +65,7 @@ export class EdgeRepository {
     extractedBy: string = 'system',
     metadata: Record<string, any> = {}
   ): Promise<string> {
-    const result = await sql`
+    const result = await this.db`
       INSERT INTO edges (
         type, source_id, target_id, description, evidence,
         confidence, extracted_by, metadata
@@ -70,50 +87,113 @@ export class EdgeRepository {
 
   /**
    * Batch-create edges from extracted relationships.
-   * Resolves entity names to node IDs using current and existing nodes.
+   * Resolves entity names to node IDs using current and existing nodes, and
+   * (if enabled) checks the resolved node types against the ontology,
+   * rejecting, flipping or retyping violations per `config.ontology.onViolation`.
+   * Each stored relationship is recorded as the paper's mention of its edge,
+   * from which the edge's confidence and support count are derived.
+   * All relationships are resolved first and the edges then written in order
+   * of type and node IDs, so concurrent papers lock shared edges in the same
+   * order instead of deadlocking. A failed write is thrown, so inside a
+   * transaction the paper's writes are rolled back as a whole rather than
+   * stored without some of its edges.
    *
    * @param relationships - Array of extracted relationships
    * @param paperId - Current paper ID
    * @param entityNameToIdMap - Map of normalized entity names to node IDs for this paper
    * @param extractedBy - Name of the agent creating edges
-   * @returns Number of successfully created edges
+   * @returns Number of successfully created edges and the ontology violations found
    */
   async createRelationships(
     relationships: ExtractedRelationship[],
     paperId: string,
     entityNameToIdMap: Map<string, string>,
     extractedBy: string = 'RelationshipExtractor'
-  ): Promise<number> {
+  ): Promise<{ created: number; violations: OntologyViolationCounts }> {
     let createdCount = 0;
+    const violations = emptyViolationCounts();
+    const nodeTypes = new Map<string, NodeType | undefined>();
+    const resolved: Array<{
+      rel: ExtractedRelationship;
+      type: EdgeType;
+      sourceId: string;
+      targetId: string;
+      metadata: Record<string, any>;
+    }> = [];
     
     for (const rel of relationships) {
-      try {
-        const sourceId = await this.resolveEntityId(rel.source, paperId, entityNameToIdMap);
-        const targetId = await this.resolveEntityId(rel.target, paperId, entityNameToIdMap);
-        
-        if (!sourceId || !targetId) {
-          console.warn(`Could not resolve entities for relationship: ${rel.source} -> ${rel.target}`);
-          continue;
-        }
-        
-        await this.create(
+      let sourceId = await this.resolveEntityId(rel.source, paperId, entityNameToIdMap);
+      let targetId = await this.resolveEntityId(rel.target, paperId, entityNameToIdMap);
+      
+      if (!sourceId || !targetId) {
+        console.warn(`Could not resolve entities for relationship: ${rel.source} -> ${rel.target}`);
+        continue;
+      }
+
+      let type = rel.type;
+      let metadata = rel.metadata || {};
+      if (config.ontology.enabled) {
+        const decision = checkEdge(
           rel.type,
-          sourceId,
-          targetId,
-          rel.description,
-          rel.evidence,
-          rel.confidence,
-          extractedBy,
-          rel.metadata || {}
+          await this.nodeType(sourceId, nodeTypes),
+          await this.nodeType(targetId, nodeTypes),
+          config.ontology.onViolation
         );
-        
-        createdCount++;
-      } catch (error) {
-        console.error(`Failed to create edge: ${rel.source} -> ${rel.target}:`, error);
+        recordViolation(violations, rel.type, decision);
+
+        if (decision.action === 'reject') {
+          console.warn(`Rejected relationship ${rel.source} -[${rel.type}]-> ${rel.target}: ${decision.reason}`);
+          continue;
+        }
+        if (decision.action === 'flip') {
+          [sourceId, targetId] = [targetId, sourceId];
+        }
+        if (decision.action !== 'keep') {
+          type = decision.type;
+          metadata = {
+            ...metadata,
+            ontology: {
+              action: decision.action,
+              reason: decision.reason,
+              ...(decision.type !== rel.type && { original_type: rel.type }),
+            },
+          };
+        }
       }
+      
+      resolved.push({ rel, type, sourceId, targetId, metadata });
+    }
+
+    const sortKey = (edge: (typeof resolved)[number]) => `${edge.type}:${edge.sourceId}:${edge.targetId}`;
+    resolved.sort((a, b) => compareLockKeys(sortKey(a), sortKey(b)));
+
+    for (const { rel, type, sourceId, targetId, metadata } of resolved) {
+      const edgeId = await this.create(
+        type,
+        sourceId,
+        targetId,
+        rel.description,
+        rel.evidence,
+        rel.confidence,
+        extractedBy,
+        metadata
+      );
+      await this.mentionRepo.recordEdgeMention(edgeId, paperId, rel, extractedBy, metadata);
+      
+      createdCount++;
     }
     
-    return createdCount;
+    return { created: createdCount, violations };
+  }
+
+  /**
+   * Look up the type of a node, memoized for one batch.
+   */
+  private async nodeType(nodeId: string, cache: Map<string, NodeType | undefined>): Promise<NodeType | undefined> {
+    if (!cache.has(nodeId)) {
+      cache.set(nodeId, (await this.nodeRepo.findById(nodeId))?.type);
+    }
+    return cache.get(nodeId);
   }
 
   /**
@@ -121,7 +201,8 @@ export class EdgeRepository {
    * Checks:
    * 1. Current paper's entities
    * 2. Paper itself
-   * 3. Existing nodes in database
+   * 3. Recorded aliases
+   * 4. Existing nodes in database
    *
    * @param entityName - Name of the entity
    * @param paperId - ID of the current paper
@@ -143,6 +224,11 @@ export class EdgeRepository {
     if (paperNode && this.normalizeName(paperNode.name) === normalized) {
       return paperId;
     }
+
+    const aliased = await this.nodeRepo.findByAlias(entityName);
+    if (aliased) {
+      return aliased.id;
+    }
     
     const existingNodes = await this.nodeRepo.search(entityName, undefined, 5);
     if (existingNodes.length > 0) {
@@ -161,14 +247,14 @@ export class EdgeRepository {
    */
   async findBySource(sourceId: string, type?: EdgeType): Promise<Edge[]> {
     if (type) {
-      return sql<Edge[]>`
+      return this.db<Edge[]>`
         SELECT * FROM edges
         WHERE source_id = ${sourceId} AND type = ${type}
         ORDER BY created_at DESC
       `;
     }
     
-    return sql<Edge[]>`
+    return this.db<Edge[]>`
       SELECT * FROM edges
       WHERE source_id = ${sourceId}
       ORDER BY created_at DESC
@@ -184,27 +270,46 @@ export class EdgeRepository {
    */
   async findByTarget(targetId: string, type?: EdgeType): Promise<Edge[]> {
     if (type) {
-      return sql<Edge[]>`
+      return this.db<Edge[]>`
         SELECT * FROM edges
         WHERE target_id = ${targetId} AND type = ${type}
         ORDER BY created_at DESC
       `;
     }
     
-    return sql<Edge[]>`
+    return this.db<Edge[]>`
       SELECT * FROM edges
       WHERE target_id = ${targetId}
       ORDER BY created_at DESC
     `;
   }
 
+  /**
+   * Find the co-authors of an author: other authors of the papers linked to
+   * it by `authored_by` edges.
+   *
+   * @param authorId - Author node ID
+   * @returns Distinct co-author nodes
+   */
+  async findCoauthors(authorId: string): Promise<Node[]> {
+    return this.db<Node[]>`
+      SELECT DISTINCT co.*
+      FROM edges mine
+      JOIN edges theirs ON theirs.source_id = mine.source_id
+        AND theirs.type = 'authored_by'
+        AND theirs.target_id <> mine.target_id
+      JOIN nodes co ON co.id = theirs.target_id
+      WHERE mine.type = 'authored_by' AND mine.target_id = ${authorId}
+    `;
+  }
+
   /**
    * Get statistics of edges by type.
    *
    * @returns Record mapping EdgeType -> count
    */
   async getStats(): Promise<Record<EdgeType, number>> {
-    const result = await sql`
+    const result = await this.db`
       SELECT type, COUNT(*) as count
       FROM edges
       GROUP BY type
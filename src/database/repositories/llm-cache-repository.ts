@@ -0,0 +1,91 @@
+/**
+ * LLM Cache Repository
+ * 
+ * Handles database operations for the content-addressed LLM response cache:
+ * - Looking up unexpired entries (and counting hits)
+ * - Storing responses with an optional expiry
+ * - Purging expired entries
+ */
+
+import { sql } from '../client.js';
+import type { Sql } from 'postgres';
+import type { LLMResponse } from '../../llm/provider.js';
+
+/**
+ * Columns identifying what a cache entry was computed from.
+ */
+export interface LLMCacheKeyParts {
+  cacheKey: string;
+  provider: string;
+  model: string;                // Model served, after aliases
+  baseURL: string | null;       // OpenAI-compatible server, if not the default API
+  temperature: number;
+  promptHash: string;
+  promptVersion: string;
+}
+
+export class LLMCacheRepository {
+  /**
+   * @param db - Database client; pass a transaction's client to run the queries inside it
+   */
+  constructor(private db: Sql = sql) {}
+
+  /**
+   * Fetch an unexpired cached response and record the hit.
+   *
+   * @param cacheKey - Content hash of the request
+   * @returns Cached response or null on miss
+   */
+  async get(cacheKey: string): Promise<LLMResponse | null> {
+    const result = await this.db`
+      UPDATE llm_cache
+      SET hit_count = hit_count + 1,
+          last_hit_at = NOW()
+      WHERE cache_key = ${cacheKey}
+        AND (expires_at IS NULL OR expires_at > NOW())
+      RETURNING response
+    `;
+
+    return result.length > 0 ? (result[0].response as LLMResponse) : null;
+  }
+
+  /**
+   * Store (or replace) a cached response.
+   *
+   * @param parts - Key and the inputs it was derived from
+   * @param response - Provider response to cache
+   * @param ttlSeconds - Time to live; 0 means the entry never expires
+   */
+  async set(parts: LLMCacheKeyParts, response: LLMResponse, ttlSeconds: number): Promise<void> {
+    const expiresAt = ttlSeconds > 0 ? new Date(Date.now() + ttlSeconds * 1000) : null;
+
+    await this.db`
+      INSERT INTO llm_cache (
+        cache_key, provider, model, base_url, temperature, prompt_hash, prompt_version,
+        response, expires_at
+      ) VALUES (
+        ${parts.cacheKey}, ${parts.provider}, ${parts.model}, ${parts.baseURL}, ${parts.temperature},
+        ${parts.promptHash}, ${parts.promptVersion},
+        ${JSON.stringify(response)}, ${expiresAt}
+      )
+      ON CONFLICT (cache_key)
+      DO UPDATE SET
+        response = EXCLUDED.response,
+        created_at = NOW(),
+        expires_at = EXCLUDED.expires_at
+    `;
+  }
+
+  /**
+   * Delete expired entries.
+   *
+   * @returns Number of deleted entries
+   */
+  async purgeExpired(): Promise<number> {
+    const result = await this.db`
+      DELETE FROM llm_cache
+      WHERE expires_at IS NOT NULL AND expires_at <= NOW()
+    `;
+    return result.count;
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * Mention Repository
+ *
+ * Handles database operations for per-paper provenance, including:
+ * - Recording each paper's assertion of an edge or mention of a node
+ * - Deriving an edge's confidence and support count from its mentions
+ * - Listing the papers behind an edge, and a paper's current assertions
+ * - Retracting the assertions a paper no longer makes
+ */
+
+import { sql } from '../client.js';
+import type { Sql } from 'postgres';
+import type {
+  EdgeMention,
+  ExtractedEntity,
+  ExtractedRelationship,
+  NodeMention,
+  PaperAssertion,
+} from '../../types/index.js';
+
+/**
+ * Offsets of a grounded quote, if grounding located it in the paper text.
+ */
+function groundedOffsets(metadata: Record<string, any>): { start: number | null; end: number | null } {
+  const grounding = metadata.grounding;
+  return grounding?.located
+    ? { start: grounding.start, end: grounding.end }
+    : { start: null, end: null };
+}
+
+/**
+ * Combine the confidences of independent papers asserting an edge:
+ * 1 - Π(1 - cᵢ), so agreement between papers raises the confidence and no
+ * single paper lowers it. Values are clamped to 0-1; no papers give 0.
+ *
+ * @param confidences - Confidence of each paper's assertion
+ * @returns Combined confidence (0-1)
+ */
+export function combineConfidence(confidences: number[]): number {
+  const disbelief = confidences.reduce((product, c) => product * (1 - Math.min(Math.max(c, 0), 1)), 1);
+  return 1 - disbelief;
+}
+
+export class MentionRepository {
+  /**
+   * @param db - Database client; pass a transaction's client to run the queries inside it
+   */
+  constructor(private db: Sql = sql) {}
+
+  /**
+   * Record a paper's assertion of an edge and refresh the edge's confidence
+   * and support count.
+   *
+   * A paper holds one mention per edge, tagged with the transaction that
+   * recorded it. A mention recorded by another transaction (a previous run
+   * over the paper) is replaced; within one transaction the most confident
+   * assertion wins.
+   *
+   * @param edgeId - Edge the relationship was stored as
+   * @param paperId - Paper making the claim
+   * @param relationship - Relationship as extracted (evidence, confidence, metadata)
+   * @param extractedBy - Agent that extracted it
+   * @param metadata - Metadata stored with the edge (including ontology repairs)
+   */
+  async recordEdgeMention(
+    edgeId: string,
+    paperId: string,
+    relationship: ExtractedRelationship,
+    extractedBy: string,
+    metadata: Record<string, any> = relationship.metadata || {}
+  ): Promise<void> {
+    const { start, end } = groundedOffsets(metadata);
+
+    await this.db`
+      INSERT INTO edge_mentions (
+        edge_id, paper_id, evidence, evidence_start, evidence_end,
+        confidence, extracted_by, model, prompt_version, metadata
+      ) VALUES (
+        ${edgeId}, ${paperId}, ${relationship.evidence || null}, ${start}, ${end},
+        ${relationship.confidence}, ${extractedBy}, ${metadata.model ?? null}, ${metadata.prompt_version ?? null},
+        ${JSON.stringify(metadata)}
+      )
+      ON CONFLICT (edge_id, paper_id)
+      DO UPDATE SET
+        evidence = EXCLUDED.evidence,
+        evidence_start = EXCLUDED.evidence_start,
+        evidence_end = EXCLUDED.evidence_end,
+        confidence = EXCLUDED.confidence,
+        extracted_by = EXCLUDED.extracted_by,
+        model = EXCLUDED.model,
+        prompt_version = EXCLUDED.prompt_version,
+        metadata = EXCLUDED.metadata,
+        recorded_at = NOW(),
+        txid = txid_current()
+      WHERE edge_mentions.txid <> txid_current() OR EXCLUDED.confidence > edge_mentions.confidence
+    `;
+
+    await this.refreshEdgeSupport(edgeId);
+  }
+
+  /**
+   * Record a paper's mention of a node. Replaced like edge mentions.
+   *
+   * @param nodeId - Node the entity was stored as
+   * @param paperId - Paper mentioning the entity
+   * @param entity - Entity as extracted (name, context, confidence, metadata)
+   * @param extractedBy - Agent that extracted it
+   */
+  async recordNodeMention(
+    nodeId: string,
+    paperId: string,
+    entity: ExtractedEntity,
+    extractedBy: string
+  ): Promise<void> {
+    const metadata = entity.metadata || {};
+    const { start, end } = groundedOffsets(metadata);
+
+    await this.db`
+      INSERT INTO node_mentions (
+        node_id, paper_id, name, context, context_start, context_end,
+        confidence, extracted_by, model, prompt_version, metadata
+      ) VALUES (
+        ${nodeId}, ${paperId}, ${entity.name}, ${entity.context || null}, ${start}, ${end},
+        ${entity.confidence}, ${extractedBy}, ${metadata.model ?? null}, ${metadata.prompt_version ?? null},
+        ${JSON.stringify(metadata)}
+      )
+      ON CONFLICT (node_id, paper_id)
+      DO UPDATE SET
+        name = EXCLUDED.name,
+        context = EXCLUDED.context,
+        context_start = EXCLUDED.context_start,
+        context_end = EXCLUDED.context_end,
+        confidence = EXCLUDED.confidence,
+        extracted_by = EXCLUDED.extracted_by,
+        model = EXCLUDED.model,
+        prompt_version = EXCLUDED.prompt_version,
+        metadata = EXCLUDED.metadata,
+        recorded_at = NOW(),
+        txid = txid_current()
+      WHERE node_mentions.txid <> txid_current() OR EXCLUDED.confidence > node_mentions.confidence
+    `;
+  }
+
+  /**
+   * Derive an edge's confidence and support count from its mentions, with
+   * papers as independent evidence (see `combineConfidence`).
+   * Edges without mentions (e.g. citation and author links) are left as they are.
+   *
+   * @param edgeId - Edge ID
+   */
+  async refreshEdgeSupport(edgeId: string): Promise<void> {
+    const mentions = await this.db<Array<{ confidence: number }>>`
+      SELECT confidence FROM edge_mentions WHERE edge_id = ${edgeId}
+    `;
+    if (mentions.length === 0) return;
+
+    await this.db`
+      UPDATE edges SET
+        support_count = ${mentions.length},
+        confidence = ${combineConfidence(mentions.map((m) => m.confidence))}
+      WHERE id = ${edgeId}
+    `;
+  }
+
+  /**
+   * Retract the assertions a paper no longer makes.
+   *
+   * Must run in the transaction that recorded the paper's current
+   * assertions: the paper's mentions recorded by any other transaction are
+   * stale and deleted. Edges left without any mention are removed, the
+   * support of the others recomputed; entity nodes left without any
+   * mention, edge or result are removed too.
+   *
+   * @param paperId - Paper ID
+   * @returns Number of stale mentions deleted and of edges and nodes removed
+   */
+  async retractStale(paperId: string): Promise<{
+    edge_mentions: number;
+    node_mentions: number;
+    edges_removed: number;
+    nodes_removed: number;
+  }> {
+    const staleEdges = await this.db<Array<{ edge_id: string }>>`
+      DELETE FROM edge_mentions
+      WHERE paper_id = ${paperId} AND txid <> txid_current()
+      RETURNING edge_id
+    `;
+    const edgeIds = staleEdges.map((row) => row.edge_id);
+
+    let edgesRemoved = 0;
+    if (edgeIds.length > 0) {
+      const removed = await this.db`
+        DELETE FROM edges
+        WHERE id IN ${this.db(edgeIds)}
+          AND NOT EXISTS (SELECT 1 FROM edge_mentions m WHERE m.edge_id = edges.id)
+        RETURNING id
+      `;
+      edgesRemoved = removed.length;
+      const removedIds = new Set(removed.map((row) => row.id as string));
+      for (const edgeId of edgeIds.filter((id) => !removedIds.has(id))) {
+        await this.refreshEdgeSupport(edgeId);
+      }
+    }
+
+    const staleNodes = await this.db<Array<{ node_id: string }>>`
+      DELETE FROM node_mentions
+      WHERE paper_id = ${paperId} AND txid <> txid_current()
+      RETURNING node_id
+    `;
+    const nodeIds = staleNodes.map((row) => row.node_id);
+
+    let nodesRemoved = 0;
+    if (nodeIds.length > 0) {
+      const removed = await this.db`
+        DELETE FROM nodes n
+        WHERE n.id IN ${this.db(nodeIds)}
+          AND n.type <> 'paper'
+          AND NOT EXISTS (SELECT 1 FROM node_mentions m WHERE m.node_id = n.id)
+          AND NOT EXISTS (SELECT 1 FROM edges e WHERE e.source_id = n.id OR e.target_id = n.id)
+          AND NOT EXISTS (
+            SELECT 1 FROM results r
+            WHERE r.method_id = n.id OR r.dataset_id = n.id OR r.metric_id = n.id
+          )
+        RETURNING n.id
+      `;
+      nodesRemoved = removed.length;
+    }
+
+    return {
+      edge_mentions: edgeIds.length,
+      node_mentions: nodeIds.length,
+      edges_removed: edgesRemoved,
+      nodes_removed: nodesRemoved,
+    };
+  }
+
+  /**
+   * Get the nodes and edges a paper currently asserts, for comparing runs.
+   *
+   * @param paperId - Paper ID
+   * @returns The paper's node and edge mentions, labelled with node names
+   */
+  async findAssertionsForPaper(paperId: string): Promise<{ nodes: PaperAssertion[]; edges: PaperAssertion[] }> {
+    const nodes = await this.db<PaperAssertion[]>`
+      SELECT
+        n.id,
+        n.name || ' (' || n.type || ')' AS label,
+        m.confidence,
+        m.context AS evidence,
+        m.model,
+        m.prompt_version
+      FROM node_mentions m
+      JOIN nodes n ON n.id = m.node_id
+      WHERE m.paper_id = ${paperId}
+      ORDER BY label
+    `;
+    const edges = await this.db<PaperAssertion[]>`
+      SELECT
+        e.id,
+        s.name || ' -[' || e.type || ']-> ' || t.name AS label,
+        m.confidence,
+        m.evidence,
+        m.model,
+        m.prompt_version
+      FROM edge_mentions m
+      JOIN edges e ON e.id = m.edge_id
+      JOIN nodes s ON s.id = e.source_id
+      JOIN nodes t ON t.id = e.target_id
+      WHERE m.paper_id = ${paperId}
+      ORDER BY label
+    `;
+    return { nodes, edges };
+  }
+
+  /**
+   * Get the papers asserting an edge, most confident first.
+   *
+   * @param edgeId - Edge ID
+   * @returns Mentions with the title of each paper
+   */
+  async findForEdge(edgeId: string): Promise<Array<EdgeMention & { paper_title: string }>> {
+    return this.db<Array<EdgeMention & { paper_title: string }>>`
+      SELECT m.*, p.title AS paper_title
+      FROM edge_mentions m
+      JOIN papers p ON p.id = m.paper_id
+      WHERE m.edge_id = ${edgeId}
+      ORDER BY m.confidence DESC, p.title
+    `;
+  }
+
+  /**
+   * Get the papers mentioning a node, most confident first.
+   *
+   * @param nodeId - Node ID
+   * @returns Mentions with the title of each paper
+   */
+  async findForNode(nodeId: string): Promise<Array<NodeMention & { paper_title: string }>> {
+    return this.db<Array<NodeMention & { paper_title: string }>>`
+      SELECT m.*, p.title AS paper_title
+      FROM node_mentions m
+      JOIN papers p ON p.id = m.paper_id
+      WHERE m.node_id = ${nodeId}
+      ORDER BY m.confidence DESC, p.title
+    `;
+  }
+}
@@ -4,17 +4,35 @@
  * Handles all database interactions for graph nodes in the Research Knowledge Graph.
  * Responsibilities:
  * - Upserting nodes (create or update) with deduplication
- * - Batch upsert of extracted entities
+ * - Batch upsert of extracted entities, recording each paper's mentions
+ * - Recording and resolving aliases (alternative surface forms of a node)
  * - Querying nodes by ID, name, type, or fuzzy search
+ * - Matching cited papers by identifier or title, and creating stub papers
+ * - Looking up author name variants
  * - Gathering node statistics
  */
 
-import { sql } from '../client.js';
-import type { Node, NodeType, ExtractedEntity } from '../../types/index.js';
+import { compareLockKeys, sql } from '../client.js';
+import type { Sql } from 'postgres';
+import type { Node, NodeAlias, NodeType, ExtractedEntity } from '../../types/index.js';
+import { MentionRepository } from './mention-repository.js';
+
+// Minimum trigram similarity for a node to be offered as an alias candidate
+const CANDIDATE_SIMILARITY = 0.3;
 
 export class NodeRepository {
+  private mentionRepo: MentionRepository;
+
+  /**
+   * @param db - Database client; pass a transaction's client to run the queries inside it
+   */
+  constructor(private db: Sql = sql) {
+    this.mentionRepo = new MentionRepository(db);
+  }
+
   /**
    * Upsert a single node.
+   * If the name is a recorded alias, the aliased node is updated instead.
    * If a node with the same type and canonical_name exists:
    * - Merges metadata
    * - Updates extraction confidence if higher
@@ -35,8 +53,21 @@ export class NodeRepository {
     confidence: number = 1.0
   ): Promise<string> {
     const canonicalName = this.normalizeName(name);
+
+    const aliased = await this.findByAlias(name, type);
+    if (aliased) {
+      const updated = await this.db`
+        UPDATE nodes SET
+          metadata = metadata || ${JSON.stringify(metadata)}::jsonb,
+          extraction_confidence = GREATEST(extraction_confidence, ${confidence}),
+          updated_at = NOW()
+        WHERE id = ${aliased.id}
+        RETURNING id
+      `;
+      return updated[0].id;
+    }
     
-    const result = await sql`
+    const result = await this.db`
       INSERT INTO nodes (
         type, name, canonical_name, metadata, 
         extracted_by, extraction_confidence
@@ -57,18 +88,26 @@ export class NodeRepository {
 
   /**
    * Batch upsert extracted entities.
+   * Aliases attached by normalization are recorded against the entity's node.
+   * With a paper ID, each entity is also recorded as the paper's mention of its node.
+   * Entities are written in order of type and normalized name, so concurrent
+   * papers lock shared nodes in the same order instead of deadlocking.
    *
    * @param entities - Array of extracted entities
    * @param extractedBy - Agent responsible for extraction
-   * @returns Map of canonicalized entity names -> node IDs
+   * @param paperId - Paper the entities were extracted from
+   * @returns Map of canonicalized entity names (and aliases) -> node IDs
    */
   async upsertEntities(
     entities: ExtractedEntity[],
-    extractedBy: string = 'EntityExtractor'
+    extractedBy: string = 'EntityExtractor',
+    paperId?: string
   ): Promise<Map<string, string>> {
     const nameToIdMap = new Map<string, string>();
+    const sortKey = (entity: ExtractedEntity) => `${entity.type}:${this.normalizeName(entity.name)}`;
+    const ordered = [...entities].sort((a, b) => compareLockKeys(sortKey(a), sortKey(b)));
     
-    for (const entity of entities) {
+    for (const entity of ordered) {
       const nodeId = await this.upsert(
         entity.type,
         entity.name,
@@ -82,6 +121,14 @@ export class NodeRepository {
       );
       
       nameToIdMap.set(this.normalizeName(entity.name), nodeId);
+      if (paperId) {
+        await this.mentionRepo.recordNodeMention(nodeId, paperId, entity, extractedBy);
+      }
+
+      for (const alias of entity.aliases ?? []) {
+        await this.addAlias(nodeId, entity.type, alias, 'NormalizationAgent', entity.confidence);
+        nameToIdMap.set(this.normalizeName(alias), nodeId);
+      }
     }
     
     return nameToIdMap;
@@ -97,7 +144,7 @@ export class NodeRepository {
   async findByName(type: NodeType, name: string): Promise<Node | null> {
     const canonicalName = this.normalizeName(name);
     
-    const result = await sql<Node[]>`
+    const result = await this.db<Node[]>`
       SELECT * FROM nodes
       WHERE type = ${type} AND canonical_name = ${canonicalName}
       LIMIT 1
@@ -106,6 +153,220 @@ export class NodeRepository {
     return result[0] || null;
   }
 
+  /**
+   * Find the node an alias resolves to.
+   *
+   * @param alias - Surface form
+   * @param type - Optional filter by node type
+   * @returns Aliased node or null if the name is not a recorded alias
+   */
+  async findByAlias(alias: string, type?: NodeType): Promise<Node | null> {
+    const canonicalAlias = this.normalizeName(alias);
+
+    if (type) {
+      const result = await this.db<Node[]>`
+        SELECT n.* FROM node_aliases a
+        JOIN nodes n ON n.id = a.node_id
+        WHERE a.type = ${type} AND a.canonical_alias = ${canonicalAlias}
+        LIMIT 1
+      `;
+      return result[0] || null;
+    }
+
+    const result = await this.db<Node[]>`
+      SELECT n.* FROM node_aliases a
+      JOIN nodes n ON n.id = a.node_id
+      WHERE a.canonical_alias = ${canonicalAlias}
+      ORDER BY a.confidence DESC
+      LIMIT 1
+    `;
+    return result[0] || null;
+  }
+
+  /**
+   * Record an alias for a node.
+   * An alias equal to the node's own canonical name is ignored, and an
+   * alias already pointing at another node is left untouched.
+   *
+   * @param nodeId - Canonical node ID
+   * @param type - Node type
+   * @param alias - Surface form
+   * @param source - Agent or process recording the alias
+   * @param confidence - Confidence that the alias is correct (0.0-1.0)
+   */
+  async addAlias(
+    nodeId: string,
+    type: NodeType,
+    alias: string,
+    source: string = 'system',
+    confidence: number = 1.0
+  ): Promise<void> {
+    const canonicalAlias = this.normalizeName(alias);
+
+    await this.db`
+      INSERT INTO node_aliases (node_id, type, alias, canonical_alias, source, confidence)
+      SELECT ${nodeId}, ${type}, ${alias}, ${canonicalAlias}, ${source}, ${confidence}
+      WHERE NOT EXISTS (
+        SELECT 1 FROM nodes WHERE id = ${nodeId} AND canonical_name = ${canonicalAlias}
+      )
+      ON CONFLICT (type, canonical_alias) DO NOTHING
+    `;
+  }
+
+  /**
+   * Get the aliases recorded for a node.
+   *
+   * @param nodeId - Node ID
+   * @returns Aliases, oldest first
+   */
+  async getAliases(nodeId: string): Promise<NodeAlias[]> {
+    return this.db<NodeAlias[]>`
+      SELECT * FROM node_aliases
+      WHERE node_id = ${nodeId}
+      ORDER BY created_at
+    `;
+  }
+
+  /**
+   * Find existing nodes that may be the same entity as `name`, for normalization.
+   * Matches by trigram similarity on the name or any alias, and by containment
+   * in either direction (so "3DGS" finds "Gaussian Splatting (3DGS)").
+   *
+   * @param type - Node type
+   * @param name - Newly extracted entity name
+   * @param limit - Max number of candidates
+   * @returns Candidate nodes with their recorded aliases
+   */
+  async findAliasCandidates(
+    type: NodeType,
+    name: string,
+    limit: number = 5
+  ): Promise<Array<Node & { aliases: string[] }>> {
+    return this.db<Array<Node & { aliases: string[] }>>`
+      SELECT
+        n.*,
+        ARRAY(SELECT a.alias FROM node_aliases a WHERE a.node_id = n.id ORDER BY a.alias) AS aliases
+      FROM nodes n
+      WHERE n.type = ${type}
+        AND (
+          similarity(n.name, ${name}) > ${CANDIDATE_SIMILARITY}
+          OR n.name ILIKE ${`%${name}%`}
+          OR (length(n.canonical_name) >= 3 AND ${this.normalizeName(name)} LIKE '%' || n.canonical_name || '%')
+          OR EXISTS (
+            SELECT 1 FROM node_aliases a
+            WHERE a.node_id = n.id AND similarity(a.alias, ${name}) > ${CANDIDATE_SIMILARITY}
+          )
+        )
+      ORDER BY similarity(n.name, ${name}) DESC
+      LIMIT ${limit}
+    `;
+  }
+
+  /**
+   * Find a paper node by arXiv ID or DOI, on the node itself or on its
+   * papers record.
+   *
+   * @param ids - arXiv ID (without version) and/or DOI
+   * @returns Paper node or null if neither identifier is known
+   */
+  async findPaperByIdentifier(ids: { arxiv_id?: string; doi?: string }): Promise<Node | null> {
+    if (ids.arxiv_id) {
+      const result = await this.db<Node[]>`
+        SELECT n.* FROM nodes n
+        LEFT JOIN papers p ON p.id = n.id
+        WHERE n.type = 'paper'
+          AND (n.arxiv_id = ${ids.arxiv_id} OR p.arxiv_id = ${ids.arxiv_id})
+        LIMIT 1
+      `;
+      if (result[0]) return result[0];
+    }
+
+    if (ids.doi) {
+      const result = await this.db<Node[]>`
+        SELECT n.* FROM nodes n
+        LEFT JOIN papers p ON p.id = n.id
+        WHERE n.type = 'paper'
+          AND (n.doi = ${ids.doi.toLowerCase()} OR lower(p.doi) = ${ids.doi.toLowerCase()})
+        LIMIT 1
+      `;
+      if (result[0]) return result[0];
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the paper node whose title is most similar to `title`.
+   *
+   * @param title - Title as written in a reference list
+   * @param minSimilarity - Minimum trigram similarity (0.0-1.0)
+   * @returns Best match with its similarity, or null if none reaches the threshold
+   */
+  async findPaperByTitle(
+    title: string,
+    minSimilarity: number
+  ): Promise<(Node & { similarity: number }) | null> {
+    const result = await this.db<Array<Node & { similarity: number }>>`
+      SELECT n.*, similarity(n.name, ${title}) AS similarity
+      FROM nodes n
+      WHERE n.type = 'paper' AND similarity(n.name, ${title}) >= ${minSimilarity}
+      ORDER BY similarity DESC
+      LIMIT 1
+    `;
+    return result[0] || null;
+  }
+
+  /**
+   * Create a stub paper node for a cited paper that is not in the graph.
+   * An existing paper node with the same title is returned untouched. The
+   * stub is found again by title or identifier when the paper is cited or
+   * ingested later.
+   *
+   * @param title - Title from the reference list
+   * @param ids - Identifiers and year read from the reference
+   * @param metadata - Arbitrary JSON metadata
+   * @param extractedBy - Process creating the stub
+   * @returns ID of the stub (or existing) paper node
+   */
+  async createPaperStub(
+    title: string,
+    ids: { arxiv_id?: string; doi?: string; year?: number },
+    metadata: Record<string, any> = {},
+    extractedBy: string = 'system'
+  ): Promise<string> {
+    const existing = await this.findByName('paper', title) ?? await this.findByAlias(title, 'paper');
+    if (existing) return existing.id;
+
+    const result = await this.db`
+      INSERT INTO nodes (
+        type, name, canonical_name, metadata, extracted_by,
+        arxiv_id, doi, publication_year
+      ) VALUES (
+        'paper', ${title}, ${this.normalizeName(title)}, ${JSON.stringify({ ...metadata, stub: true })},
+        ${extractedBy}, ${ids.arxiv_id ?? null}, ${ids.doi ?? null}, ${ids.year ?? null}
+      )
+      ON CONFLICT (type, canonical_name) DO UPDATE SET updated_at = NOW()
+      RETURNING id
+    `;
+
+    return result[0].id;
+  }
+
+  /**
+   * Find author nodes recorded under a name key (surname plus first initial,
+   * see `parseAuthorName`).
+   *
+   * @param nameKey - Match key, e.g. "drettakis g"
+   * @returns Author nodes sharing the key, oldest first
+   */
+  async findAuthorsByKey(nameKey: string): Promise<Node[]> {
+    return this.db<Node[]>`
+      SELECT * FROM nodes
+      WHERE type = 'author' AND metadata @> ${JSON.stringify({ name_key: nameKey })}::jsonb
+      ORDER BY created_at
+    `;
+  }
+
   /**
    * Find a node by ID.
    *
@@ -113,7 +374,7 @@ export class NodeRepository {
    * @returns Node or null if not found
    */
   async findById(id: string): Promise<Node | null> {
-    const result = await sql<Node[]>`
+    const result = await this.db<Node[]>`
       SELECT * FROM nodes
       WHERE id = ${id}
       LIMIT 1
@@ -130,7 +391,7 @@ export class NodeRepository {
    * @returns Array of nodes
    */
   async findByType(type: NodeType, limit: number = 100): Promise<Node[]> {
-    return sql<Node[]>`
+    return this.db<Node[]>`
       SELECT * FROM nodes
       WHERE type = ${type}
       ORDER BY created_at DESC
@@ -148,7 +409,7 @@ export class NodeRepository {
    */
   async search(query: string, type?: NodeType, limit: number = 20): Promise<Node[]> {
     if (type) {
-      return sql<Node[]>`
+      return this.db<Node[]>`
         SELECT * FROM nodes
         WHERE type = ${type}
           AND (name ILIKE ${`%${query}%`} OR canonical_name ILIKE ${`%${query}%`})
@@ -157,7 +418,7 @@ export class NodeRepository {
       `;
     }
     
-    return sql<Node[]>`
+    return this.db<Node[]>`
       SELECT * FROM nodes
       WHERE name ILIKE ${`%${query}%`} OR canonical_name ILIKE ${`%${query}%`}
       ORDER BY similarity(name, ${query}) DESC
@@ -171,7 +432,7 @@ export class NodeRepository {
    * @returns Record mapping NodeType -> count
    */
   async getStats(): Promise<Record<NodeType, number>> {
-    const result = await sql`
+    const result = await this.db`
       SELECT type, COUNT(*) as count
       FROM nodes
       GROUP BY type
@@ -4,19 +4,24 @@
  * Handles database operations for research papers, including:
  * - Creating papers with upsert logic
  * - Updating processing status
+ * - Storing and listing paper summaries
  * - Searching and querying papers
- * - Gathering statistics
+ * - Gathering statistics and refreshing the citation views
  */
 
 import { sql } from '../client.js';
-import type { Paper } from '../../types/index.js';
+import type { Sql } from 'postgres';
+import type { Paper, PaperSummary } from '../../types/index.js';
 import { NodeRepository } from './node-repository.js';
 
 export class PaperRepository {
   private nodeRepo: NodeRepository;
 
-  constructor() {
-    this.nodeRepo = new NodeRepository();
+  /**
+   * @param db - Database client; pass a transaction's client to run the queries inside it
+   */
+  constructor(private db: Sql = sql) {
+    this.nodeRepo = new NodeRepository(db);
   }
 
   /**
@@ -46,13 +51,24 @@ export class PaperRepository {
         abstract: paperData.abstract,
         authors: paperData.authors,
         venue: paperData.venue,
+        // A stub created from another paper's reference list becomes a full paper
+        stub: false,
       },
       'system',
       1.0
     );
 
+    // Identifiers on the node let reference lists match this paper
+    await this.db`
+      UPDATE nodes SET
+        arxiv_id = COALESCE(${paperData.arxiv_id || null}, arxiv_id),
+        doi = COALESCE(${paperData.doi?.toLowerCase() || null}, doi),
+        publication_year = COALESCE(${paperData.publication_date?.getFullYear() ?? null}, publication_year)
+      WHERE id = ${nodeId}
+    `;
+
     // Insert paper record in the papers table
-    const result = await sql<Paper[]>`
+    const result = await this.db<Paper[]>`
       INSERT INTO papers (
         id, title, abstract, full_text, authors,
         arxiv_id, doi, publication_date, venue,
@@ -82,6 +98,16 @@ export class PaperRepository {
     return result[0];
   }
 
+  /**
+   * Lock a paper's row until the end of the current transaction, so two runs
+   * writing the same paper's analysis wait for each other.
+   *
+   * @param paperId - Node ID of the paper
+   */
+  async lockForUpdate(paperId: string): Promise<void> {
+    await this.db`SELECT id FROM papers WHERE id = ${paperId} FOR UPDATE`;
+  }
+
   /**
    * Update the processing status of a paper.
    *
@@ -92,15 +118,75 @@ export class PaperRepository {
     paperId: string,
     status: 'pending' | 'processing' | 'completed' | 'failed'
   ): Promise<void> {
-    await sql`
+    await this.db`
       UPDATE papers
       SET processing_status = ${status},
-          processed_at = ${status === 'completed' ? sql`NOW()` : sql`processed_at`},
+          processed_at = ${status === 'completed' ? this.db`NOW()` : this.db`processed_at`},
           updated_at = NOW()
       WHERE id = ${paperId}
     `;
   }
 
+  /**
+   * Store the summary, key contributions and limitations of a paper.
+   *
+   * @param paperId - Node ID of the paper
+   * @param summary - Output of the summarization agent
+   */
+  async updateSummary(paperId: string, summary: PaperSummary): Promise<void> {
+    await this.db`
+      UPDATE papers
+      SET summary = ${summary.summary},
+          key_contributions = ${summary.key_contributions},
+          limitations = ${summary.limitations},
+          updated_at = NOW()
+      WHERE id = ${paperId}
+    `;
+  }
+
+  /**
+   * List summarized papers, newest first, for browsing the graph.
+   *
+   * @param limit - Max number of papers to return
+   * @param offset - Offset for pagination
+   * @returns Title, identifiers and summary fields of each paper
+   */
+  async findSummaries(
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<Array<Pick<Paper, 'id' | 'title' | 'arxiv_id' | 'publication_date'> & PaperSummary>> {
+    return this.db<Array<Pick<Paper, 'id' | 'title' | 'arxiv_id' | 'publication_date'> & PaperSummary>>`
+      SELECT
+        id, title, arxiv_id, publication_date,
+        summary,
+        COALESCE(key_contributions, '{}') AS key_contributions,
+        COALESCE(limitations, '{}') AS limitations
+      FROM papers
+      WHERE summary IS NOT NULL
+      ORDER BY publication_date DESC NULLS LAST
+      LIMIT ${limit}
+      OFFSET ${offset}
+    `;
+  }
+
+  /**
+   * Read a span of a paper's full text, e.g. the evidence located by grounding
+   * (`metadata.grounding.start` / `end` on nodes and edges).
+   *
+   * @param paperId - Node ID of the paper
+   * @param start - Start offset
+   * @param end - End offset (exclusive)
+   * @returns The quoted text, or null if the paper has no full text
+   */
+  async getTextSpan(paperId: string, start: number, end: number): Promise<string | null> {
+    const result = await this.db`
+      SELECT substring(full_text FROM ${start + 1} FOR ${Math.max(0, end - start)}) AS span
+      FROM papers
+      WHERE id = ${paperId}
+    `;
+    return result[0]?.span ?? null;
+  }
+
   /**
    * Find a paper by its node ID.
    *
@@ -108,7 +194,7 @@ export class PaperRepository {
    * @returns Paper or null if not found
    */
   async findById(id: string): Promise<Paper | null> {
-    const result = await sql<Paper[]>`
+    const result = await this.db<Paper[]>`
       SELECT * FROM papers
       WHERE id = ${id}
       LIMIT 1
@@ -123,7 +209,7 @@ export class PaperRepository {
    * @returns Paper or null if not found
    */
   async findByArxivId(arxivId: string): Promise<Paper | null> {
-    const result = await sql<Paper[]>`
+    const result = await this.db<Paper[]>`
       SELECT * FROM papers
       WHERE arxiv_id = ${arxivId}
       LIMIT 1
@@ -142,7 +228,7 @@ export class PaperRepository {
     status: 'pending' | 'processing' | 'completed' | 'failed',
     limit: number = 100
   ): Promise<Paper[]> {
-    return sql<Paper[]>`
+    return this.db<Paper[]>`
       SELECT * FROM papers
       WHERE processing_status = ${status}
       ORDER BY created_at DESC
@@ -158,7 +244,7 @@ export class PaperRepository {
    * @returns Array of Paper objects
    */
   async findAll(limit: number = 100, offset: number = 0): Promise<Paper[]> {
-    return sql<Paper[]>`
+    return this.db<Paper[]>`
       SELECT * FROM papers
       ORDER BY publication_date DESC NULLS LAST
       LIMIT ${limit}
@@ -174,7 +260,7 @@ export class PaperRepository {
    * @returns Array of matching papers
    */
   async search(query: string, limit: number = 20): Promise<Paper[]> {
-    return sql<Paper[]>`
+    return this.db<Paper[]>`
       SELECT * FROM papers
       WHERE title ILIKE ${`%${query}%`} OR abstract ILIKE ${`%${query}%`}
       ORDER BY publication_date DESC
@@ -191,8 +277,8 @@ export class PaperRepository {
     total: number;
     by_status: Record<string, number>;
   }> {
-    const totalResult = await sql`SELECT COUNT(*) as count FROM papers`;
-    const statusResult = await sql`
+    const totalResult = await this.db`SELECT COUNT(*) as count FROM papers`;
+    const statusResult = await this.db`
       SELECT processing_status, COUNT(*) as count
       FROM papers
       GROUP BY processing_status
@@ -208,4 +294,13 @@ export class PaperRepository {
       by_status: byStatus,
     };
   }
+
+  /**
+   * Recompute the materialized views built on papers and edges
+   * (`paper_stats` citation counts and `concept_stats`).
+   */
+  async refreshStats(): Promise<void> {
+    await this.db`REFRESH MATERIALIZED VIEW CONCURRENTLY paper_stats`;
+    await this.db`REFRESH MATERIALIZED VIEW CONCURRENTLY concept_stats`;
+  }
 }
@@ -0,0 +1,131 @@
+/**
+ * Result Repository
+ *
+ * Handles database operations for quantitative results, including:
+ * - Storing a paper's results, resolving method, dataset and metric names to nodes
+ * - Querying the results reported by a paper
+ * - Gathering result statistics
+ */
+
+import { sql } from '../client.js';
+import type { Sql } from 'postgres';
+import type { ExtractedResult, NodeType, Result } from '../../types/index.js';
+import { NodeRepository } from './node-repository.js';
+
+export class ResultRepository {
+  private nodeRepo: NodeRepository;
+
+  /**
+   * @param db - Database client; pass a transaction's client to run the queries inside it
+   */
+  constructor(private db: Sql = sql) {
+    this.nodeRepo = new NodeRepository(db);
+  }
+
+  /**
+   * Replace the results reported by a paper.
+   * Method, dataset and metric names resolve to existing nodes (or aliases)
+   * of the matching type; names not yet in the graph become new nodes.
+   *
+   * @param paperId - Paper reporting the results
+   * @param results - Extracted results
+   * @param extractedBy - Agent that extracted the results
+   * @returns Number of stored results
+   */
+  async replaceForPaper(
+    paperId: string,
+    results: ExtractedResult[],
+    extractedBy: string = 'ResultsExtractor'
+  ): Promise<number> {
+    await this.db`DELETE FROM results WHERE paper_id = ${paperId}`;
+
+    let count = 0;
+    for (const result of results) {
+      const methodId = await this.resolveNode('method', result.method, result.confidence, extractedBy);
+      const datasetId = await this.resolveNode('dataset', result.dataset, result.confidence, extractedBy);
+      const metricId = await this.resolveNode('metric', result.metric, result.confidence, extractedBy);
+      const grounding = result.metadata?.grounding;
+
+      await this.db`
+        INSERT INTO results (
+          paper_id, method_id, dataset_id, metric_id,
+          value, unit, higher_is_better, setting,
+          evidence, evidence_start, evidence_end,
+          confidence, extracted_by, metadata
+        ) VALUES (
+          ${paperId}, ${methodId}, ${datasetId}, ${metricId},
+          ${result.value}, ${result.unit || null}, ${result.higher_is_better ?? null}, ${result.setting || ''},
+          ${result.evidence || null}, ${grounding?.located ? grounding.start : null}, ${grounding?.located ? grounding.end : null},
+          ${result.confidence}, ${extractedBy}, ${JSON.stringify(result.metadata ?? {})}
+        )
+        ON CONFLICT (paper_id, method_id, dataset_id, metric_id, setting)
+        DO UPDATE SET
+          value = EXCLUDED.value,
+          unit = COALESCE(EXCLUDED.unit, results.unit),
+          higher_is_better = COALESCE(EXCLUDED.higher_is_better, results.higher_is_better),
+          confidence = GREATEST(results.confidence, EXCLUDED.confidence)
+      `;
+      count++;
+    }
+
+    return count;
+  }
+
+  /**
+   * Find the node for a method, dataset or metric name, creating it if needed.
+   */
+  private async resolveNode(
+    type: NodeType,
+    name: string,
+    confidence: number,
+    extractedBy: string
+  ): Promise<string> {
+    const existing = await this.nodeRepo.findByName(type, name) ?? await this.nodeRepo.findByAlias(name, type);
+    if (existing) return existing.id;
+
+    return this.nodeRepo.upsert(type, name, {}, extractedBy, confidence);
+  }
+
+  /**
+   * Get the results reported by a paper, with node names.
+   *
+   * @param paperId - Paper ID
+   * @returns Results ordered by dataset, metric and method
+   */
+  async findByPaper(
+    paperId: string
+  ): Promise<Array<Result & { method: string; dataset: string; metric: string }>> {
+    return this.db<Array<Result & { method: string; dataset: string; metric: string }>>`
+      SELECT r.*, m.name AS method, d.name AS dataset, k.name AS metric
+      FROM results r
+      JOIN nodes m ON m.id = r.method_id
+      JOIN nodes d ON d.id = r.dataset_id
+      JOIN nodes k ON k.id = r.metric_id
+      WHERE r.paper_id = ${paperId}
+      ORDER BY d.name, k.name, m.name
+    `;
+  }
+
+  /**
+   * Get statistics about stored results.
+   *
+   * @returns Total results and distinct methods, datasets and metrics
+   */
+  async getStats(): Promise<{ total: number; methods: number; datasets: number; metrics: number }> {
+    const result = await this.db`
+      SELECT
+        COUNT(*) AS total,
+        COUNT(DISTINCT method_id) AS methods,
+        COUNT(DISTINCT dataset_id) AS datasets,
+        COUNT(DISTINCT metric_id) AS metrics
+      FROM results
+    `;
+
+    return {
+      total: Number(result[0].total),
+      methods: Number(result[0].methods),
+      datasets: Number(result[0].datasets),
+      metrics: Number(result[0].metrics),
+    };
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Run Repository
+ * 
+ * Handles database operations for ingestion runs, including:
+ * - Starting a run with its budget cap
+ * - Persisting running totals of papers, LLM usage and ontology violations
+ * - Finishing a run with its final status
+ */
+
+import { sql } from '../client.js';
+import type { Sql } from 'postgres';
+import type { IngestionRun, OntologyViolationCounts, TokenUsage } from '../../types/index.js';
+
+/**
+ * Progress counters persisted on a run.
+ */
+export interface RunProgress {
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  usage: TokenUsage;
+  ontologyViolations: OntologyViolationCounts;
+}
+
+export class RunRepository {
+  /**
+   * @param db - Database client; pass a transaction's client to run the queries inside it
+   */
+  constructor(private db: Sql = sql) {}
+
+  /**
+   * Start a new ingestion run.
+   *
+   * @param papersTotal - Number of papers submitted to the run
+   * @param budgetUsd - Budget cap in USD, or undefined for no cap
+   * @returns The created run
+   */
+  async create(papersTotal: number, budgetUsd?: number): Promise<IngestionRun> {
+    const result = await this.db<IngestionRun[]>`
+      INSERT INTO ingestion_runs (papers_total, budget_usd, status)
+      VALUES (${papersTotal}, ${budgetUsd ?? null}, 'running')
+      RETURNING *
+    `;
+    return result[0];
+  }
+
+  /**
+   * Persist the running totals of a run.
+   *
+   * @param runId - Run ID
+   * @param progress - Paper counters, aggregated usage and ontology violations so far
+   */
+  async updateProgress(runId: string, progress: RunProgress): Promise<void> {
+    await this.db`
+      UPDATE ingestion_runs
+      SET papers_succeeded = ${progress.succeeded},
+          papers_failed = ${progress.failed},
+          papers_skipped = ${progress.skipped},
+          input_tokens = ${progress.usage.input_tokens},
+          output_tokens = ${progress.usage.output_tokens},
+          cost_usd = ${progress.usage.cost_usd},
+          ontology_violations = ${JSON.stringify(progress.ontologyViolations)}
+      WHERE id = ${runId}
+    `;
+  }
+
+  /**
+   * Mark a run as finished.
+   *
+   * @param runId - Run ID
+   * @param status - Final status
+   * @param progress - Final paper counters and usage
+   */
+  async finish(
+    runId: string,
+    status: Exclude<IngestionRun['status'], 'running'>,
+    progress: RunProgress
+  ): Promise<void> {
+    await this.updateProgress(runId, progress);
+    await this.db`
+      UPDATE ingestion_runs
+      SET status = ${status},
+          finished_at = NOW()
+      WHERE id = ${runId}
+    `;
+  }
+
+  /**
+   * Find a run by ID.
+   *
+   * @param id - Run ID
+   * @returns Run or null if not found
+   */
+  async findById(id: string): Promise<IngestionRun | null> {
+    const result = await this.db<IngestionRun[]>`
+      SELECT * FROM ingestion_runs
+      WHERE id = ${id}
+      LIMIT 1
+    `;
+    return result[0] || null;
+  }
+
+  /**
+   * Get the most recent runs.
+   *
+   * @param limit - Max number of runs to return
+   * @returns Array of runs, newest first
+   */
+  async findRecent(limit: number = 20): Promise<IngestionRun[]> {
+    return this.db<IngestionRun[]>`
+      SELECT * FROM ingestion_runs
+      ORDER BY started_at DESC
+      LIMIT ${limit}
+    `;
+  }
+}
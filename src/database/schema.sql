@@ -108,6 +108,25 @@ CREATE TABLE nodes (
   UNIQUE(type, canonical_name)
 );
 
+-- ============================================================================
+-- NODE ALIASES (Surface forms resolved to a canonical node)
+-- ============================================================================
+
+CREATE TABLE node_aliases (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  node_id UUID NOT NULL REFERENCES nodes(id) ON DELETE CASCADE,
+  type node_type NOT NULL,
+  alias TEXT NOT NULL,
+  canonical_alias TEXT NOT NULL, -- Normalized like nodes.canonical_name
+  
+  source TEXT, -- Agent or process that recorded the alias
+  confidence FLOAT DEFAULT 1.0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  
+  -- An alias resolves to exactly one node per type
+  UNIQUE(type, canonical_alias)
+);
+
 -- ============================================================================
 -- EDGES TABLE
 -- ============================================================================
@@ -123,7 +142,8 @@ CREATE TABLE edges (
   evidence TEXT, -- Quote or context from paper
   
   -- Confidence and provenance
-  confidence FLOAT DEFAULT 1.0,
+  confidence FLOAT DEFAULT 1.0, -- Derived from edge_mentions once the edge has any
+  support_count INTEGER DEFAULT 0, -- Papers asserting the edge (rows in edge_mentions)
   extracted_by TEXT,
   extraction_timestamp TIMESTAMP DEFAULT NOW(),
   
@@ -136,6 +156,9 @@ CREATE TABLE edges (
   UNIQUE(type, source_id, target_id)
 );
 
+-- Upgrade path for databases created before per-paper mentions
+ALTER TABLE edges ADD COLUMN IF NOT EXISTS support_count INTEGER DEFAULT 0;
+
 -- ============================================================================
 -- PAPERS TABLE (Detailed paper information)
 -- ============================================================================
@@ -161,6 +184,11 @@ CREATE TABLE papers (
   processing_status TEXT DEFAULT 'pending',
   processed_at TIMESTAMP,
   
+  -- Summarization
+  summary TEXT,
+  key_contributions TEXT[],
+  limitations TEXT[],
+  
   -- Embeddings for semantic search (future)
   title_embedding vector(1536),
   abstract_embedding vector(1536),
@@ -169,6 +197,117 @@ CREATE TABLE papers (
   updated_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Upgrade path for databases created before summarization
+ALTER TABLE papers ADD COLUMN IF NOT EXISTS summary TEXT;
+ALTER TABLE papers ADD COLUMN IF NOT EXISTS key_contributions TEXT[];
+ALTER TABLE papers ADD COLUMN IF NOT EXISTS limitations TEXT[];
+
+-- ============================================================================
+-- MENTIONS (Per-paper provenance of every extracted node and edge)
+-- ============================================================================
+
+CREATE TABLE edge_mentions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  edge_id UUID NOT NULL REFERENCES edges(id) ON DELETE CASCADE,
+  paper_id UUID NOT NULL REFERENCES papers(id) ON DELETE CASCADE, -- Paper making the claim
+  
+  -- Provenance: the supporting quote, located in papers.full_text
+  evidence TEXT,
+  evidence_start INTEGER,
+  evidence_end INTEGER,
+  confidence FLOAT DEFAULT 1.0,
+  extracted_by TEXT,
+  model TEXT,
+  prompt_version TEXT,
+  metadata JSONB DEFAULT '{}', -- Grounding, validation and ontology details of this assertion
+  
+  recorded_at TIMESTAMP DEFAULT NOW(),
+  txid BIGINT NOT NULL DEFAULT txid_current(), -- Transaction (processing run) that recorded the claim
+  
+  -- One claim per paper; reprocessing the paper replaces it
+  UNIQUE(edge_id, paper_id)
+);
+
+CREATE TABLE node_mentions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  node_id UUID NOT NULL REFERENCES nodes(id) ON DELETE CASCADE,
+  paper_id UUID NOT NULL REFERENCES papers(id) ON DELETE CASCADE, -- Paper mentioning the entity
+  
+  name TEXT NOT NULL, -- Surface form as extracted
+  
+  -- Provenance: the context snippet, located in papers.full_text
+  context TEXT,
+  context_start INTEGER,
+  context_end INTEGER,
+  confidence FLOAT DEFAULT 1.0,
+  extracted_by TEXT,
+  model TEXT,
+  prompt_version TEXT,
+  metadata JSONB DEFAULT '{}',
+  
+  recorded_at TIMESTAMP DEFAULT NOW(),
+  txid BIGINT NOT NULL DEFAULT txid_current(), -- Transaction (processing run) that recorded the mention
+  
+  UNIQUE(node_id, paper_id)
+);
+
+-- ============================================================================
+-- RESULTS TABLE (Quantitative results: method x dataset x metric -> value)
+-- ============================================================================
+
+CREATE TABLE results (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  paper_id UUID NOT NULL REFERENCES papers(id) ON DELETE CASCADE, -- Paper reporting the number
+  method_id UUID NOT NULL REFERENCES nodes(id) ON DELETE CASCADE,
+  dataset_id UUID NOT NULL REFERENCES nodes(id) ON DELETE CASCADE,
+  metric_id UUID NOT NULL REFERENCES nodes(id) ON DELETE CASCADE,
+  
+  value DOUBLE PRECISION NOT NULL,
+  unit TEXT,
+  higher_is_better BOOLEAN, -- NULL when the paper does not make it clear
+  setting TEXT NOT NULL DEFAULT '', -- Qualifier such as "7k iterations"
+  
+  -- Provenance: the table row or sentence, located in papers.full_text
+  evidence TEXT,
+  evidence_start INTEGER,
+  evidence_end INTEGER,
+  confidence FLOAT DEFAULT 1.0,
+  extracted_by TEXT,
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT NOW(),
+  
+  UNIQUE(paper_id, method_id, dataset_id, metric_id, setting)
+);
+
+-- ============================================================================
+-- INGESTION RUNS (Per-run LLM usage and budget tracking)
+-- ============================================================================
+
+CREATE TABLE ingestion_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  status TEXT DEFAULT 'running', -- 'running', 'completed', 'budget_exceeded', 'failed'
+  budget_usd NUMERIC(12, 6), -- NULL when no cap is configured
+  
+  papers_total INTEGER DEFAULT 0,
+  papers_succeeded INTEGER DEFAULT 0,
+  papers_failed INTEGER DEFAULT 0,
+  papers_skipped INTEGER DEFAULT 0,
+  
+  -- Aggregated LLM usage
+  input_tokens BIGINT DEFAULT 0,
+  output_tokens BIGINT DEFAULT 0,
+  cost_usd NUMERIC(12, 6) DEFAULT 0,
+  
+  -- Relationships that broke the ontology: { flipped, retyped, rejected, by_edge_type }
+  ontology_violations JSONB DEFAULT '{"flipped": 0, "retyped": 0, "rejected": 0, "by_edge_type": {}}',
+  
+  started_at TIMESTAMP DEFAULT NOW(),
+  finished_at TIMESTAMP
+);
+
+-- Upgrade path for databases created before ontology enforcement
+ALTER TABLE ingestion_runs ADD COLUMN IF NOT EXISTS ontology_violations JSONB DEFAULT '{"flipped": 0, "retyped": 0, "rejected": 0, "by_edge_type": {}}';
+
 -- ============================================================================
 -- EXTRACTION LOGS (For debugging and quality control)
 -- ============================================================================
@@ -176,6 +315,7 @@ CREATE TABLE papers (
 CREATE TABLE extraction_logs (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   paper_id UUID REFERENCES papers(id) ON DELETE CASCADE,
+  run_id UUID REFERENCES ingestion_runs(id) ON DELETE SET NULL,
   agent_name TEXT NOT NULL,
   extraction_type TEXT NOT NULL, -- 'entity', 'relationship', 'validation'
   
@@ -185,10 +325,66 @@ CREATE TABLE extraction_logs (
   success BOOLEAN DEFAULT true,
   error_message TEXT,
   
+  -- LLM provenance and usage for this stage
+  model TEXT,
+  prompt_version TEXT,
+  input_tokens INTEGER DEFAULT 0,
+  output_tokens INTEGER DEFAULT 0,
+  cost_usd NUMERIC(12, 6) DEFAULT 0,
+  
   execution_time_ms INTEGER,
   timestamp TIMESTAMP DEFAULT NOW()
 );
 
+-- Upgrade path for databases created before usage tracking
+ALTER TABLE extraction_logs ADD COLUMN IF NOT EXISTS run_id UUID REFERENCES ingestion_runs(id) ON DELETE SET NULL;
+ALTER TABLE extraction_logs ADD COLUMN IF NOT EXISTS model TEXT;
+ALTER TABLE extraction_logs ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+ALTER TABLE extraction_logs ADD COLUMN IF NOT EXISTS input_tokens INTEGER DEFAULT 0;
+ALTER TABLE extraction_logs ADD COLUMN IF NOT EXISTS output_tokens INTEGER DEFAULT 0;
+ALTER TABLE extraction_logs ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6) DEFAULT 0;
+
+-- ============================================================================
+-- LLM RESPONSE CACHE (Content-addressed, avoids paying twice for a prompt)
+-- ============================================================================
+
+CREATE TABLE llm_cache (
+  cache_key TEXT PRIMARY KEY, -- sha256 of provider, model, base URL, temperature, prompt hash, prompt version
+  provider TEXT,
+  model TEXT NOT NULL, -- Model served, after aliases
+  base_url TEXT, -- OpenAI-compatible server, NULL for the provider's default API
+  temperature FLOAT,
+  prompt_hash TEXT NOT NULL,
+  prompt_version TEXT,
+  
+  response JSONB NOT NULL,
+  
+  hit_count INTEGER DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  last_hit_at TIMESTAMP,
+  expires_at TIMESTAMP -- NULL = never expires
+);
+
+-- Upgrade path for caches created before keys named the backend
+ALTER TABLE llm_cache ADD COLUMN IF NOT EXISTS provider TEXT;
+ALTER TABLE llm_cache ADD COLUMN IF NOT EXISTS base_url TEXT;
+
+-- ============================================================================
+-- STAGE CHECKPOINTS (Resumable per-stage paper processing)
+-- ============================================================================
+
+CREATE TABLE stage_checkpoints (
+  paper_id UUID REFERENCES papers(id) ON DELETE CASCADE,
+  stage TEXT NOT NULL, -- Orchestrator stage name, e.g. 'relationships'
+  stage_version TEXT NOT NULL, -- Model, prompt version and settings the output depends on
+  input_hash TEXT NOT NULL, -- sha256 of the paper text the stage read
+  
+  artifacts JSONB NOT NULL, -- Artifacts the stage wrote (entities, relationships, ...)
+  
+  created_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (paper_id, stage)
+);
+
 -- ============================================================================
 -- INDEXES
 -- ============================================================================
@@ -199,6 +395,9 @@ CREATE INDEX idx_nodes_canonical ON nodes(canonical_name);
 CREATE INDEX idx_nodes_name_trgm ON nodes USING gin(name gin_trgm_ops);
 CREATE INDEX idx_nodes_metadata ON nodes USING gin(metadata);
 CREATE INDEX idx_nodes_arxiv ON nodes(arxiv_id) WHERE arxiv_id IS NOT NULL;
+CREATE INDEX idx_nodes_doi ON nodes(doi) WHERE doi IS NOT NULL;
+CREATE INDEX idx_node_aliases_node ON node_aliases(node_id);
+CREATE INDEX idx_node_aliases_trgm ON node_aliases USING gin(alias gin_trgm_ops);
 
 -- Edge indexes for graph traversal
 CREATE INDEX idx_edges_type ON edges(type);
@@ -208,11 +407,27 @@ CREATE INDEX idx_edges_source_type ON edges(source_id, type);
 CREATE INDEX idx_edges_target_type ON edges(target_id, type);
 CREATE INDEX idx_edges_metadata ON edges USING gin(metadata);
 
+-- Mention indexes (lookups by edge/node use the UNIQUE constraints)
+CREATE INDEX idx_edge_mentions_paper ON edge_mentions(paper_id);
+CREATE INDEX idx_node_mentions_paper ON node_mentions(paper_id);
+
 -- Paper indexes
 CREATE INDEX idx_papers_arxiv ON papers(arxiv_id);
 CREATE INDEX idx_papers_status ON papers(processing_status);
 CREATE INDEX idx_papers_year ON papers(publication_date);
 
+-- Result indexes
+CREATE INDEX idx_results_paper ON results(paper_id);
+CREATE INDEX idx_results_method ON results(method_id);
+CREATE INDEX idx_results_dataset_metric ON results(dataset_id, metric_id);
+
+-- LLM cache indexes
+CREATE INDEX idx_llm_cache_expires ON llm_cache(expires_at) WHERE expires_at IS NOT NULL;
+
+-- Extraction log indexes
+CREATE INDEX idx_extraction_logs_paper ON extraction_logs(paper_id);
+CREATE INDEX idx_extraction_logs_run ON extraction_logs(run_id);
+
 -- ============================================================================
 -- MATERIALIZED VIEWS FOR COMMON QUERIES
 -- ============================================================================
@@ -253,6 +468,19 @@ GROUP BY n.id, n.name;
 
 CREATE UNIQUE INDEX idx_concept_stats_id ON concept_stats(id);
 
+-- View: LLM usage and estimated cost per paper (all runs)
+CREATE VIEW paper_llm_usage AS
+SELECT
+  l.paper_id,
+  p.title,
+  COUNT(*) FILTER (WHERE l.input_tokens > 0 OR l.output_tokens > 0) as llm_stages,
+  SUM(l.input_tokens) as input_tokens,
+  SUM(l.output_tokens) as output_tokens,
+  SUM(l.cost_usd) as cost_usd
+FROM extraction_logs l
+JOIN papers p ON p.id = l.paper_id
+GROUP BY l.paper_id, p.title;
+
 -- ============================================================================
 -- HELPER FUNCTIONS
 -- ============================================================================
@@ -0,0 +1,157 @@
+/**
+ * Extraction evaluation entry point.
+ *
+ * Runs every paper of a gold dataset through `AgentOrchestrator.processPaper`
+ * and scores the predicted entities and relationships against the gold
+ * annotations. The orchestrator runs without a database: no known papers in
+ * the prompts, canonicalization within each paper only, no response cache,
+ * and nothing logged or written to the graph, so scores do not depend on the graph's contents
+ * and DATABASE_URL is not needed. Writes `<name>.json` and a
+ * diffable `<name>.md` summary to the output directory.
+ *
+ * Record LLM responses once and replay them for reproducible scores:
+ *   LLM_CASSETTE_MODE=record npm run eval -- evaluation/gold/sample.json
+ *   LLM_CASSETTE_MODE=replay npm run eval -- evaluation/gold/sample.json --out evaluation/reports
+ *
+ * Usage:
+ *   npm run eval -- [gold.json] [--out <dir>]
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { validateConfig } from '../config/index.js';
+import { closeDatabaseConnection } from '../database/client.js';
+import { AgentOrchestrator } from '../agents/orchestrator.js';
+import type { Paper } from '../types/index.js';
+import { loadGoldDataset } from './gold.js';
+import type { GoldPaper } from './gold.js';
+import { matchPaper } from './scoring.js';
+import { buildReport, currentSettings, formatScore, renderMarkdown } from './report.js';
+import type { PaperEvaluation } from './report.js';
+
+const DEFAULT_GOLD_PATH = 'evaluation/gold/sample.json';
+const DEFAULT_OUT_DIR = 'evaluation/reports';
+
+/**
+ * Parse `[gold.json] [--out <dir>]`.
+ */
+function parseArgs(args: string[]): { goldPath: string; outDir: string } {
+  let goldPath = DEFAULT_GOLD_PATH;
+  let outDir = DEFAULT_OUT_DIR;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--out') {
+      const value = args[++i];
+      if (!value) throw new Error('--out requires a directory');
+      outDir = value;
+    } else {
+      goldPath = args[i];
+    }
+  }
+
+  return { goldPath, outDir };
+}
+
+/**
+ * Build the in-memory paper record the orchestrator expects.
+ */
+function toPaper(gold: GoldPaper): Paper {
+  const now = new Date();
+  return {
+    id: randomUUID(),
+    title: gold.title,
+    abstract: gold.abstract,
+    full_text: gold.full_text,
+    authors: gold.authors,
+    arxiv_id: gold.arxiv_id,
+    processing_status: 'processing',
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+/**
+ * Run the orchestrator over one gold paper and match its output.
+ */
+async function evaluatePaper(orchestrator: AgentOrchestrator, gold: GoldPaper): Promise<PaperEvaluation> {
+  try {
+    const analysis = await orchestrator.processPaper(toPaper(gold), gold.full_text);
+    return {
+      id: gold.id,
+      title: gold.title,
+      match: matchPaper(gold, analysis.entities, analysis.relationships),
+      usage: analysis.usage,
+    };
+  } catch (error) {
+    console.error(`Failed to evaluate ${gold.id}:`, error);
+    return {
+      id: gold.id,
+      title: gold.title,
+      match: matchPaper(gold, [], []),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Main function: validate the configuration and run the evaluation.
+ */
+async function main() {
+  console.log('Research Knowledge Graph - Extraction Evaluation');
+  console.log('=====================================');
+
+  try {
+    validateConfig({ database: false });
+  } catch (error) {
+    console.error('Configuration error:', error);
+    process.exit(1);
+  }
+
+  try {
+    await evaluate(process.argv.slice(2));
+  } finally {
+    // Nothing should have connected; close the pool anyway so the process can exit
+    await closeDatabaseConnection();
+  }
+}
+
+/**
+ * Evaluate the dataset given on the command line and write the reports.
+ */
+async function evaluate(args: string[]): Promise<void> {
+  const { goldPath, outDir } = parseArgs(args);
+  const dataset = await loadGoldDataset(goldPath);
+  console.log(`Gold dataset: ${dataset.name} (${dataset.papers.length} papers)`);
+
+  const orchestrator = new AgentOrchestrator({ database: false });
+  const papers: PaperEvaluation[] = [];
+  for (const gold of dataset.papers) {
+    papers.push(await evaluatePaper(orchestrator, gold));
+  }
+
+  const report = buildReport(dataset.name, papers, currentSettings());
+  await mkdir(outDir, { recursive: true });
+  const jsonPath = join(outDir, `${dataset.name}.json`);
+  const markdownPath = join(outDir, `${dataset.name}.md`);
+  await writeFile(jsonPath, JSON.stringify(report, null, 2) + '\n');
+  await writeFile(markdownPath, renderMarkdown(report));
+
+  const { entities, relationships } = report;
+  console.log('Evaluation Summary');
+  console.log('='.repeat(80));
+  console.log(
+    `Entities:      P ${formatScore(entities.overall.precision)}  R ${formatScore(entities.overall.recall)}  ` +
+    `F1 ${formatScore(entities.overall.f1)}`
+  );
+  console.log(
+    `Relationships: P ${formatScore(relationships.overall.precision)}  R ${formatScore(relationships.overall.recall)}  ` +
+    `F1 ${formatScore(relationships.overall.f1)}`
+  );
+  console.log(`Reports written to ${jsonPath} and ${markdownPath}`);
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,129 @@
+/**
+ * Gold Dataset
+ *
+ * Format and loader for hand-annotated evaluation papers. A gold file is a
+ * JSON document listing papers with their text and the entities and
+ * relationships a correct extraction should produce:
+ *
+ *   {
+ *     "name": "gaussian-splatting-v1",
+ *     "papers": [{
+ *       "id": "3dgs",
+ *       "title": "3D Gaussian Splatting for Real-Time Radiance Field Rendering",
+ *       "full_text_path": "texts/3dgs.txt",
+ *       "entities": [{ "name": "3D Gaussian Splatting", "type": "method", "aliases": ["3DGS"] }],
+ *       "relationships": [{ "source": "3D Gaussian Splatting", "target": "Mip-NeRF 360", "type": "uses_dataset" }]
+ *     }]
+ *   }
+ *
+ * The text is given inline as `full_text` or as `full_text_path`, relative to
+ * the gold file. Relationship endpoints may use an entity's name or any of its
+ * aliases, or the paper title.
+ */
+
+import { readFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { z } from 'zod';
+import { EdgeTypeSchema, NodeTypeSchema, formatZodError } from '../agents/schemas.js';
+import type { EdgeType, NodeType } from '../types/index.js';
+
+/**
+ * An entity a correct extraction should find.
+ */
+export interface GoldEntity {
+  name: string;
+  type: NodeType;
+  aliases: string[];            // Other names that count as the same entity
+}
+
+/**
+ * A relationship a correct extraction should find.
+ */
+export interface GoldRelationship {
+  source: string;
+  target: string;
+  type: EdgeType;
+}
+
+/**
+ * An annotated paper.
+ */
+export interface GoldPaper {
+  id: string;                   // Stable identifier used in reports
+  title: string;
+  abstract?: string;
+  authors: string[];
+  arxiv_id?: string;
+  full_text: string;
+  entities: GoldEntity[];
+  relationships: GoldRelationship[];
+}
+
+/**
+ * A loaded gold dataset.
+ */
+export interface GoldDataset {
+  name: string;
+  papers: GoldPaper[];
+}
+
+const GoldPaperSchema = z
+  .object({
+    id: z.string().min(1),
+    title: z.string().min(1),
+    abstract: z.string().optional(),
+    authors: z.array(z.string()).default([]),
+    arxiv_id: z.string().optional(),
+    full_text: z.string().min(1).optional(),
+    full_text_path: z.string().min(1).optional(),
+    entities: z.array(
+      z.object({
+        name: z.string().trim().min(1),
+        type: NodeTypeSchema,
+        aliases: z.array(z.string().trim().min(1)).default([]),
+      })
+    ),
+    relationships: z.array(
+      z.object({
+        source: z.string().trim().min(1),
+        target: z.string().trim().min(1),
+        type: EdgeTypeSchema,
+      })
+    ).default([]),
+  })
+  .refine((paper) => paper.full_text !== undefined || paper.full_text_path !== undefined, {
+    message: 'either full_text or full_text_path is required',
+  });
+
+const GoldDatasetSchema = z.object({
+  name: z.string().min(1),
+  papers: z.array(GoldPaperSchema).min(1),
+});
+
+/**
+ * Load and validate a gold dataset, reading paper texts given by path.
+ *
+ * @param path - Path of the gold JSON file
+ * @returns The dataset with every paper's full text inlined
+ */
+export async function loadGoldDataset(path: string): Promise<GoldDataset> {
+  const raw = JSON.parse(await readFile(path, 'utf-8'));
+  const parsed = GoldDatasetSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid gold dataset ${path}: ${formatZodError(parsed.error)}`);
+  }
+
+  const ids = new Set<string>();
+  const papers: GoldPaper[] = [];
+  for (const { full_text_path, ...paper } of parsed.data.papers) {
+    if (ids.has(paper.id)) {
+      throw new Error(`Invalid gold dataset ${path}: duplicate paper id ${paper.id}`);
+    }
+    ids.add(paper.id);
+
+    const fullText = paper.full_text ?? await readFile(resolve(dirname(path), full_text_path!), 'utf-8');
+    papers.push({ ...paper, full_text: fullText });
+  }
+
+  return { name: parsed.data.name, papers };
+}
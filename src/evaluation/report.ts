@@ -0,0 +1,220 @@
+/**
+ * Evaluation Report
+ *
+ * Aggregates per-paper matches into precision/recall/F1 per entity type and
+ * edge type, and renders the report as markdown. The markdown holds no
+ * timestamps or timings, so reports of two runs over the same gold set can
+ * be diffed directly.
+ */
+
+import type { TokenUsage } from '../types/index.js';
+import { addUsage, defaultModelFor, emptyUsage } from '../llm/index.js';
+import { config } from '../config/index.js';
+import { addCounts, addTypedCounts, emptyTypedCounts, toScore } from './scoring.js';
+import type { MatchCounts, PaperMatch, Score, TypedCounts } from './scoring.js';
+
+/**
+ * Outcome for one gold paper: its match, and the error if processing failed.
+ * A failed paper predicted nothing, so every gold item counts as missed.
+ */
+export interface PaperEvaluation {
+  id: string;
+  title: string;
+  match: PaperMatch;
+  error?: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * Scores in total and per entity or edge type.
+ */
+export interface TypedScores {
+  overall: Score;
+  by_type: Record<string, Score>;
+}
+
+/**
+ * Settings that produced the predictions, recorded so runs can be compared.
+ */
+export interface EvaluationSettings {
+  extraction_mode: string;
+  stages: ReadonlyArray<string | readonly string[]>;
+  cassette_mode: string;
+  agents: Record<string, { provider: string; model: string; prompt_version: string }>;
+}
+
+/**
+ * Full evaluation report.
+ */
+export interface EvaluationReport {
+  dataset: string;
+  generated_at: string;
+  settings: EvaluationSettings;
+  entities: TypedScores & { names: Score };   // `names` ignores entity types
+  relationships: TypedScores;
+  papers: PaperEvaluation[];
+  usage: TokenUsage;
+}
+
+/**
+ * Record the configured extraction settings.
+ */
+export function currentSettings(): EvaluationSettings {
+  const agents = Object.fromEntries(
+    Object.entries(config.agents).map(([name, agent]) => {
+      const provider = agent.provider ?? config.llm.provider;
+      return [name, { provider, model: agent.model || defaultModelFor(provider), prompt_version: agent.promptVersion }];
+    })
+  );
+
+  return {
+    extraction_mode: config.extraction.mode,
+    stages: config.pipeline.stages,
+    cassette_mode: config.llm.cassette.mode,
+    agents,
+  };
+}
+
+/**
+ * Turn typed match counts into typed scores, with types in alphabetical order.
+ */
+function toTypedScores(counts: TypedCounts): TypedScores {
+  const types = Object.keys(counts.by_type).sort();
+  return {
+    overall: toScore(counts.overall),
+    by_type: Object.fromEntries(types.map((type) => [type, toScore(counts.by_type[type])])),
+  };
+}
+
+/**
+ * Aggregate per-paper outcomes into a report (micro-averaged over papers).
+ * Papers that failed count their gold items as false negatives; they are
+ * listed with their error.
+ *
+ * @param dataset - Gold dataset name
+ * @param papers - Outcome for each gold paper
+ * @param settings - Settings that produced the predictions
+ * @returns The report
+ */
+export function buildReport(
+  dataset: string,
+  papers: PaperEvaluation[],
+  settings: EvaluationSettings
+): EvaluationReport {
+  let entities = emptyTypedCounts();
+  let names: MatchCounts = { tp: 0, fp: 0, fn: 0 };
+  let relationships = emptyTypedCounts();
+  let usage = emptyUsage();
+
+  for (const paper of papers) {
+    entities = addTypedCounts(entities, paper.match.entities);
+    names = addCounts(names, paper.match.entity_names);
+    relationships = addTypedCounts(relationships, paper.match.relationships);
+    if (paper.usage) {
+      usage = addUsage(usage, paper.usage);
+    }
+  }
+
+  return {
+    dataset,
+    generated_at: new Date().toISOString(),
+    settings,
+    entities: { ...toTypedScores(entities), names: toScore(names) },
+    relationships: toTypedScores(relationships),
+    papers,
+    usage,
+  };
+}
+
+/**
+ * Format a 0-1 score as a fixed-width number, or "n/a" if undefined.
+ */
+export function formatScore(value: number | null): string {
+  return value === null ? 'n/a' : value.toFixed(3);
+}
+
+/**
+ * Render a score table with one row per label.
+ */
+function scoreTable(rows: Array<[string, Score]>): string[] {
+  return [
+    '| | P | R | F1 | TP | FP | FN |',
+    '|---|---:|---:|---:|---:|---:|---:|',
+    ...rows.map(([label, s]) =>
+      `| ${label} | ${formatScore(s.precision)} | ${formatScore(s.recall)} | ${formatScore(s.f1)} | ${s.tp} | ${s.fp} | ${s.fn} |`
+    ),
+  ];
+}
+
+/**
+ * Render a report as markdown.
+ *
+ * @param report - Evaluation report
+ * @returns Markdown summary
+ */
+export function renderMarkdown(report: EvaluationReport): string {
+  const { settings } = report;
+  const lines: string[] = [
+    `# Extraction evaluation: ${report.dataset}`,
+    '',
+    `- Papers: ${report.papers.length} (${report.papers.filter((p) => p.error).length} failed)`,
+    `- Extraction mode: ${settings.extraction_mode}`,
+    `- Stages: ${settings.stages.map((step) => (typeof step === 'string' ? step : `[${step.join(', ')}]`)).join(' → ')}`,
+    `- Cassette mode: ${settings.cassette_mode}`,
+    ...Object.entries(settings.agents).map(
+      ([name, agent]) => `- ${name}: ${agent.provider}/${agent.model}, prompt ${agent.prompt_version}`
+    ),
+    `- LLM usage: ${report.usage.calls} call(s), ${report.usage.input_tokens} input / ${report.usage.output_tokens} output tokens, ~$${report.usage.cost_usd.toFixed(4)}`,
+    '',
+    '## Entities',
+    '',
+    ...scoreTable([
+      ['**all (typed)**', report.entities.overall],
+      ['**all (names only)**', report.entities.names],
+      ...Object.entries(report.entities.by_type),
+    ]),
+    '',
+    '## Relationships',
+    '',
+    ...scoreTable([['**all**', report.relationships.overall], ...Object.entries(report.relationships.by_type)]),
+    '',
+    '## Papers',
+    '',
+    '| Paper | Entity F1 | Relationship F1 | Missed | Spurious |',
+    '|---|---:|---:|---:|---:|',
+  ];
+
+  for (const paper of report.papers) {
+    if (paper.error) {
+      lines.push(`| ${paper.id} | failed: ${paper.error} | | | |`);
+      continue;
+    }
+    const { match } = paper;
+    const missed = match.missed_entities.length + match.missed_relationships.length;
+    const spurious = match.spurious_entities.length + match.spurious_relationships.length;
+    lines.push(
+      `| ${paper.id} | ${formatScore(toScore(match.entities.overall).f1)} | ` +
+      `${formatScore(toScore(match.relationships.overall).f1)} | ${missed} | ${spurious} |`
+    );
+  }
+
+  for (const paper of report.papers) {
+    if (paper.error) continue;
+    const { match } = paper;
+    const sections: Array<[string, string[]]> = [
+      ['Missed entities', match.missed_entities],
+      ['Spurious entities', match.spurious_entities],
+      ['Missed relationships', match.missed_relationships],
+      ['Spurious relationships', match.spurious_relationships],
+    ];
+    if (sections.every(([, items]) => items.length === 0)) continue;
+
+    lines.push('', `### ${paper.id}: ${paper.title}`);
+    for (const [heading, items] of sections) {
+      if (items.length === 0) continue;
+      lines.push('', `${heading}:`, '', ...[...items].sort().map((item) => `- ${item}`));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
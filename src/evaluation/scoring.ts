@@ -0,0 +1,238 @@
+/**
+ * Evaluation Scoring
+ *
+ * Matches a paper's predicted entities and relationships to its gold
+ * annotations and counts true positives, false positives and false negatives
+ * per entity type and edge type. Names are compared after normalization, gold
+ * aliases count as the entity itself, and an entity only matches a gold
+ * entity of the same type. Relationship endpoints are mapped to their gold
+ * entity first, and symmetric edge types match in either direction.
+ */
+
+import type { ExtractedEntity, ExtractedRelationship } from '../types/index.js';
+import { SYMMETRIC_EDGE_TYPES } from '../ontology/index.js';
+import type { GoldPaper } from './gold.js';
+
+/**
+ * Match counts.
+ */
+export interface MatchCounts {
+  tp: number;
+  fp: number;
+  fn: number;
+}
+
+/**
+ * Match counts with the derived precision, recall and F1; null where the
+ * score is undefined (nothing predicted, or nothing expected).
+ */
+export interface Score extends MatchCounts {
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+/**
+ * Match counts in total and per entity or edge type.
+ */
+export interface TypedCounts {
+  overall: MatchCounts;
+  by_type: Record<string, MatchCounts>;
+}
+
+/**
+ * How one paper's predictions compare to its gold annotations.
+ */
+export interface PaperMatch {
+  entities: TypedCounts;
+  entity_names: MatchCounts;          // Ignoring types, to separate naming from typing errors
+  relationships: TypedCounts;
+  missed_entities: string[];          // Gold entities not predicted, as "name (type)"
+  spurious_entities: string[];        // Predicted entities not in the gold set
+  missed_relationships: string[];     // Gold relationships not predicted, as "source -[type]-> target"
+  spurious_relationships: string[];   // Predicted relationships not in the gold set
+}
+
+/**
+ * Normalize a name for comparison (same rules as the orchestrator).
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().trim().replace(/\s+/g, ' ').replace(/[^\w\s-]/g, '');
+}
+
+/**
+ * Counts with nothing matched.
+ */
+export function emptyTypedCounts(): TypedCounts {
+  return { overall: { tp: 0, fp: 0, fn: 0 }, by_type: {} };
+}
+
+/**
+ * Add one outcome to the overall and per-type counts.
+ */
+function count(counts: TypedCounts, type: string, outcome: keyof MatchCounts): void {
+  counts.overall[outcome]++;
+  const typeCounts = counts.by_type[type] ?? { tp: 0, fp: 0, fn: 0 };
+  typeCounts[outcome]++;
+  counts.by_type[type] = typeCounts;
+}
+
+/**
+ * Sum two sets of typed counts.
+ */
+export function addTypedCounts(a: TypedCounts, b: TypedCounts): TypedCounts {
+  const sum = emptyTypedCounts();
+  for (const counts of [a, b]) {
+    sum.overall = addCounts(sum.overall, counts.overall);
+    for (const [type, typeCounts] of Object.entries(counts.by_type)) {
+      sum.by_type[type] = addCounts(sum.by_type[type] ?? { tp: 0, fp: 0, fn: 0 }, typeCounts);
+    }
+  }
+  return sum;
+}
+
+/**
+ * Sum two sets of match counts.
+ */
+export function addCounts(a: MatchCounts, b: MatchCounts): MatchCounts {
+  return { tp: a.tp + b.tp, fp: a.fp + b.fp, fn: a.fn + b.fn };
+}
+
+/**
+ * Derive precision, recall and F1 from match counts.
+ * Precision (recall) is null when nothing was predicted (expected) at all;
+ * F1 is null only when both are, and 0 when either is 0 or null.
+ */
+export function toScore(counts: MatchCounts): Score {
+  const precision = counts.tp + counts.fp > 0 ? counts.tp / (counts.tp + counts.fp) : null;
+  const recall = counts.tp + counts.fn > 0 ? counts.tp / (counts.tp + counts.fn) : null;
+  if (precision === null && recall === null) {
+    return { ...counts, precision, recall, f1: null };
+  }
+  const p = precision ?? 0;
+  const r = recall ?? 0;
+  const f1 = p + r > 0 ? (2 * p * r) / (p + r) : 0;
+  return { ...counts, precision, recall, f1 };
+}
+
+/**
+ * Match a paper's predictions to its gold annotations.
+ *
+ * @param gold - Annotated paper
+ * @param entities - Predicted entities
+ * @param relationships - Predicted relationships
+ * @returns Counts per type and the missed and spurious items
+ */
+export function matchPaper(
+  gold: GoldPaper,
+  entities: ExtractedEntity[],
+  relationships: ExtractedRelationship[]
+): PaperMatch {
+  // Every normalized name or alias -> indices of the gold entities it names
+  const goldByName = new Map<string, number[]>();
+  gold.entities.forEach((entity, index) => {
+    for (const name of new Set([entity.name, ...entity.aliases].map(normalizeName))) {
+      goldByName.set(name, [...(goldByName.get(name) ?? []), index]);
+    }
+  });
+
+  // Resolve an endpoint name to its gold entity's name, if it names one
+  const canonical = (name: string): string => {
+    const normalized = normalizeName(name);
+    const index = goldByName.get(normalized)?.[0];
+    return index === undefined ? normalized : normalizeName(gold.entities[index].name);
+  };
+
+  const match: PaperMatch = {
+    entities: emptyTypedCounts(),
+    entity_names: { tp: 0, fp: 0, fn: 0 },
+    relationships: emptyTypedCounts(),
+    missed_entities: [],
+    spurious_entities: [],
+    missed_relationships: [],
+    spurious_relationships: [],
+  };
+
+  // Entities: one-to-one, most confident predictions first
+  const predicted = uniqueBy(
+    [...entities].sort((a, b) => b.confidence - a.confidence),
+    (entity) => `${entity.type}:${normalizeName(entity.name)}`
+  );
+  const typedMatched = new Set<number>();
+  const namedMatched = new Set<number>();
+
+  for (const entity of predicted) {
+    const candidates = goldByName.get(normalizeName(entity.name)) ?? [];
+
+    const typed = candidates.find((index) => !typedMatched.has(index) && gold.entities[index].type === entity.type);
+    if (typed !== undefined) {
+      typedMatched.add(typed);
+      count(match.entities, entity.type, 'tp');
+    } else {
+      count(match.entities, entity.type, 'fp');
+      match.spurious_entities.push(`${entity.name} (${entity.type})`);
+    }
+
+    const named = candidates.find((index) => !namedMatched.has(index));
+    if (named !== undefined) {
+      namedMatched.add(named);
+      match.entity_names.tp++;
+    } else {
+      match.entity_names.fp++;
+    }
+  }
+
+  gold.entities.forEach((entity, index) => {
+    if (!typedMatched.has(index)) {
+      count(match.entities, entity.type, 'fn');
+      match.missed_entities.push(`${entity.name} (${entity.type})`);
+    }
+    if (!namedMatched.has(index)) {
+      match.entity_names.fn++;
+    }
+  });
+
+  // Relationships: keyed by type and canonical endpoints
+  const key = (type: string, source: string, target: string) => `${type}|${source}|${target}`;
+  const unmatchedGold = new Map(
+    gold.relationships.map((rel) => [key(rel.type, canonical(rel.source), canonical(rel.target)), rel])
+  );
+
+  for (const rel of uniqueBy(relationships, (r) => key(r.type, canonical(r.source), canonical(r.target)))) {
+    const source = canonical(rel.source);
+    const target = canonical(rel.target);
+    const forward = key(rel.type, source, target);
+    const reverse = key(rel.type, target, source);
+    const matched = unmatchedGold.has(forward)
+      ? forward
+      : SYMMETRIC_EDGE_TYPES.has(rel.type) && unmatchedGold.has(reverse) ? reverse : null;
+
+    if (matched) {
+      unmatchedGold.delete(matched);
+      count(match.relationships, rel.type, 'tp');
+    } else {
+      count(match.relationships, rel.type, 'fp');
+      match.spurious_relationships.push(`${rel.source} -[${rel.type}]-> ${rel.target}`);
+    }
+  }
+
+  for (const rel of unmatchedGold.values()) {
+    count(match.relationships, rel.type, 'fn');
+    match.missed_relationships.push(`${rel.source} -[${rel.type}]-> ${rel.target}`);
+  }
+
+  return match;
+}
+
+/**
+ * Keep the first item for each key.
+ */
+function uniqueBy<T>(items: T[], keyOf: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const key = keyOf(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
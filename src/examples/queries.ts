@@ -94,7 +94,13 @@ export class KnowledgeGraphQueries {
       FROM papers p
       JOIN edges e ON p.id = e.source_id
       JOIN nodes n ON e.target_id = n.id
-      WHERE n.name ILIKE ${`%${techniqueName}%`}
+      WHERE (
+          n.name ILIKE ${`%${techniqueName}%`}
+          OR EXISTS (
+            SELECT 1 FROM node_aliases a
+            WHERE a.node_id = n.id AND a.alias ILIKE ${`%${techniqueName}%`}
+          )
+        )
         AND n.type IN ('technique', 'method')
         AND e.type = 'applies'
       ORDER BY e.confidence DESC, p.publication_date DESC
@@ -211,8 +217,10 @@ export class KnowledgeGraphQueries {
 
   /**
    * Query 6: Performance comparisons between methods
+   *
+   * @param minConfidence - Only show comparisons at or above this (calibrated) confidence
    */
-  async getMethodComparisons() {
+  async getMethodComparisons(minConfidence: number = 0) {
     console.log('\n📊 Query 6: Method Performance Comparisons\n');
     
     const results = await sql`
@@ -233,15 +241,23 @@ export class KnowledgeGraphQueries {
         e.description as comparison,
         e.evidence,
         e.confidence,
-        reported.title as reported_by
+        e.support_count,
+        (e.metadata->>'raw_confidence')::float as raw_confidence,
+        (e.metadata->>'agreement')::float as agreement,
+        (
+          SELECT array_agg(p.title ORDER BY m.confidence DESC)
+          FROM edge_mentions m
+          JOIN papers p ON p.id = m.paper_id
+          WHERE m.edge_id = e.id
+        ) as reported_by
       FROM edges e
       JOIN nodes n1 ON e.source_id = n1.id
       JOIN nodes n2 ON e.target_id = n2.id
       LEFT JOIN method_sources ms ON ms.method_id = n1.id
-      LEFT JOIN papers reported ON reported.id = (e.metadata->>'reported_by_paper_id')::uuid
       WHERE e.type = 'outperforms'
         AND n1.type IN ('method', 'technique')
         AND n2.type IN ('method', 'technique')
+        AND e.confidence >= ${minConfidence}
       ORDER BY e.confidence DESC
     `;
     
@@ -249,12 +265,20 @@ export class KnowledgeGraphQueries {
     results.forEach((r, i) => {
       console.log(`${i + 1}. ${r.method1} vs ${r.method2}`);
       console.log(`   Method source: ${r.paper_with_method}`);
-      if (r.reported_by && r.reported_by !== r.paper_with_method) {
-        console.log(`   Comparison reported by: ${r.reported_by}`);
+      if (r.reported_by) {
+        console.log(`   Claimed by ${r.support_count} paper(s): ${r.reported_by.join(' | ')}`);
       }
       console.log(`   Result: ${r.comparison || 'Not specified'}`);
       console.log(`   Evidence: ${r.evidence || 'N/A'}`);
-      console.log(`   Confidence: ${(Number(r.confidence) * 100).toFixed(0)}%\n`);
+      if (r.agreement !== null) {
+        console.log(
+          `   Confidence: ${(Number(r.confidence) * 100).toFixed(0)}% ` +
+          `(self-reported ${(Number(r.raw_confidence) * 100).toFixed(0)}%, ` +
+          `agreement ${(Number(r.agreement) * 100).toFixed(0)}%)\n`
+        );
+      } else {
+        console.log(`   Confidence: ${(Number(r.confidence) * 100).toFixed(0)}%\n`);
+      }
     });
     
     return results;
@@ -366,6 +390,205 @@ export class KnowledgeGraphQueries {
     return results;
   }
 
+  /**
+   * Query 11: What does each paper do? (title + summary digest)
+   */
+  async getPaperDigest(limit: number = 20) {
+    console.log('\n📊 Query 11: Paper Digest\n');
+
+    const results = await sql`
+      SELECT title, arxiv_id, publication_date, summary, key_contributions
+      FROM papers
+      WHERE summary IS NOT NULL
+      ORDER BY publication_date DESC NULLS LAST
+      LIMIT ${limit}
+    `;
+
+    console.log(`${results.length} summarized papers:\n`);
+    results.forEach((r, i) => {
+      console.log(`${i + 1}. ${r.title}`);
+      console.log(`   ${r.summary}`);
+      if (r.key_contributions?.length) {
+        console.log(`   Contributions: ${r.key_contributions.join('; ')}`);
+      }
+      console.log('');
+    });
+
+    return results;
+  }
+
+  /**
+   * Query 12: Most cited papers (from parsed reference lists)
+   */
+  async getMostCitedPapers(limit: number = 10) {
+    console.log('\n📊 Query 12: Most Cited Papers\n');
+
+    const results = await sql`
+      SELECT title, arxiv_id, citation_count
+      FROM paper_stats
+      WHERE citation_count > 0
+      ORDER BY citation_count DESC, title
+      LIMIT ${limit}
+    `;
+
+    console.log(`Top ${results.length} cited papers in the graph:\n`);
+    results.forEach((r, i) => {
+      console.log(`${i + 1}. ${r.title}${r.arxiv_id ? ` (arXiv:${r.arxiv_id})` : ''}`);
+      console.log(`   Cited by ${r.citation_count} ingested paper(s)`);
+    });
+
+    return results;
+  }
+
+  /**
+   * Query 13: Frequent co-author pairs (research groups)
+   */
+  async getFrequentCoauthors(limit: number = 10) {
+    console.log('\n📊 Query 13: Frequent Co-authors\n');
+
+    const results = await sql`
+      SELECT
+        a1.name as author,
+        a2.name as coauthor,
+        COUNT(DISTINCT e1.source_id) as shared_papers,
+        ARRAY_AGG(DISTINCT p.title) as papers
+      FROM edges e1
+      JOIN edges e2 ON e2.source_id = e1.source_id
+        AND e2.type = 'authored_by'
+        AND e2.target_id > e1.target_id
+      JOIN nodes a1 ON a1.id = e1.target_id
+      JOIN nodes a2 ON a2.id = e2.target_id
+      JOIN nodes p ON p.id = e1.source_id
+      WHERE e1.type = 'authored_by'
+      GROUP BY a1.name, a2.name
+      ORDER BY shared_papers DESC, a1.name
+      LIMIT ${limit}
+    `;
+
+    console.log(`Top ${results.length} co-author pairs:\n`);
+    results.forEach((r, i) => {
+      console.log(`${i + 1}. ${r.author} & ${r.coauthor} (${r.shared_papers} papers)`);
+      console.log(`   ${r.papers.slice(0, 3).join(' | ')}`);
+    });
+
+    return results;
+  }
+
+  /**
+   * Query 14: Leaderboards - methods ranked per dataset and metric across papers.
+   * Each method's best reported value counts; the metric's direction is the
+   * majority of the papers' higher-is-better flags (higher if unknown).
+   */
+  async getLeaderboard(dataset?: string, metric?: string, topN: number = 5) {
+    console.log('\n📊 Query 14: Leaderboards\n');
+
+    const results = await sql`
+      WITH direction AS (
+        SELECT metric_id, COALESCE(mode() WITHIN GROUP (ORDER BY higher_is_better), true) AS higher_is_better
+        FROM results
+        GROUP BY metric_id
+      ),
+      best AS (
+        SELECT
+          r.dataset_id,
+          r.metric_id,
+          COALESCE(r.unit, '') AS unit,
+          r.method_id,
+          dir.higher_is_better,
+          CASE WHEN dir.higher_is_better THEN MAX(r.value) ELSE MIN(r.value) END AS value,
+          COUNT(DISTINCT r.paper_id) AS reported_by
+        FROM results r
+        JOIN direction dir ON dir.metric_id = r.metric_id
+        GROUP BY r.dataset_id, r.metric_id, COALESCE(r.unit, ''), r.method_id, dir.higher_is_better
+      ),
+      ranked AS (
+        SELECT
+          b.*,
+          RANK() OVER (
+            PARTITION BY b.dataset_id, b.metric_id, b.unit
+            ORDER BY CASE WHEN b.higher_is_better THEN b.value ELSE -b.value END DESC
+          ) AS rank
+        FROM best b
+      )
+      SELECT
+        d.name AS dataset,
+        k.name AS metric,
+        ranked.unit,
+        ranked.higher_is_better,
+        ranked.rank,
+        m.name AS method,
+        ranked.value,
+        ranked.reported_by
+      FROM ranked
+      JOIN nodes d ON d.id = ranked.dataset_id
+      JOIN nodes k ON k.id = ranked.metric_id
+      JOIN nodes m ON m.id = ranked.method_id
+      WHERE ranked.rank <= ${topN}
+        ${dataset ? sql`AND d.name ILIKE ${`%${dataset}%`}` : sql``}
+        ${metric ? sql`AND k.name ILIKE ${`%${metric}%`}` : sql``}
+      ORDER BY d.name, k.name, ranked.unit, ranked.rank, m.name
+    `;
+
+    let board = '';
+    results.forEach((r) => {
+      const title = `${r.dataset} / ${r.metric}${r.unit ? ` (${r.unit})` : ''} ${r.higher_is_better ? '↑' : '↓'}`;
+      if (title !== board) {
+        board = title;
+        console.log(`\n${title}`);
+      }
+      console.log(`   ${r.rank}. ${r.method}: ${r.value} (reported by ${r.reported_by} paper(s))`);
+    });
+
+    return results;
+  }
+
+  /**
+   * Query 15: Which papers claim a relationship between two entities
+   * (e.g. that A outperforms B)? One row per paper, with its own evidence.
+   *
+   * @param source - Source entity name (matched by substring)
+   * @param target - Target entity name (matched by substring)
+   * @param type - Edge type of the claim
+   */
+  async getPapersClaiming(source: string, target: string, type: string = 'outperforms') {
+    console.log(`\n📊 Query 15: Papers Claiming "${source}" ${type.replace('_', ' ')} "${target}"\n`);
+
+    const results = await sql`
+      SELECT
+        s.name as source,
+        t.name as target,
+        p.title as paper,
+        p.arxiv_id,
+        m.evidence,
+        m.confidence,
+        m.prompt_version,
+        e.confidence as edge_confidence,
+        e.support_count
+      FROM edges e
+      JOIN nodes s ON s.id = e.source_id
+      JOIN nodes t ON t.id = e.target_id
+      JOIN edge_mentions m ON m.edge_id = e.id
+      JOIN papers p ON p.id = m.paper_id
+      WHERE e.type = ${type}
+        AND s.name ILIKE ${`%${source}%`}
+        AND t.name ILIKE ${`%${target}%`}
+      ORDER BY e.support_count DESC, s.name, t.name, m.confidence DESC
+    `;
+
+    let claim = '';
+    results.forEach((r) => {
+      const title = `${r.source} ${type.replace('_', ' ')} ${r.target}`;
+      if (title !== claim) {
+        claim = title;
+        console.log(`\n${title} - ${r.support_count} paper(s), combined confidence ${(Number(r.edge_confidence) * 100).toFixed(0)}%`);
+      }
+      console.log(`   ${r.paper} (arXiv: ${r.arxiv_id || 'N/A'}) ${(Number(r.confidence) * 100).toFixed(0)}%`);
+      console.log(`      Evidence: ${r.evidence || 'N/A'}`);
+    });
+
+    return results;
+  }
+
   /**
    * Query 8: Research timeline - what built upon what
    */
@@ -418,6 +641,10 @@ export class KnowledgeGraphQueries {
     await this.getDatasetUsage();
     await this.getMethodsAddressingChallenges();
     await this.getDatasetsSupporting3DGSImprovements();
+    await this.getPaperDigest(10);
+    await this.getMostCitedPapers(10);
+    await this.getFrequentCoauthors(10);
+    await this.getLeaderboard();
     
     console.log('\n' + '='.repeat(80));
   }
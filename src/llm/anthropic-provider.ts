@@ -0,0 +1,114 @@
+/**
+ * Anthropic Provider
+ *
+ * LLMProvider implementation backed by Anthropic's Messages API.
+ * System messages are lifted into the top-level `system` parameter, and
+ * JSON mode is emulated by instruction plus an assistant prefill since the
+ * API has no native `response_format`.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { config } from '../config/index.js';
+import { LLMProviderError, mapHttpError } from './provider.js';
+import type { LLMCapabilities, LLMProvider, LLMRequest, LLMResponse } from './provider.js';
+
+const JSON_INSTRUCTION = 'Respond with a single valid JSON object and nothing else.';
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly capabilities: LLMCapabilities = { jsonMode: true };
+  private client?: Anthropic;
+
+  /**
+   * Lazily create the SDK client so that agents can be constructed
+   * without credentials for providers they never call.
+   */
+  private getClient(): Anthropic {
+    if (!this.client) {
+      this.client = new Anthropic({
+        apiKey: config.llm.anthropic.apiKey,
+        // Retries are handled by ResilientProvider
+        maxRetries: 0,
+      });
+    }
+    return this.client;
+  }
+
+  /**
+   * Call the Messages API and normalize the response.
+   *
+   * @param request Resolved completion request
+   * @returns LLMResponse with content and usage info
+   */
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const systemParts = request.messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content);
+    if (request.json_mode) {
+      systemParts.push(JSON_INSTRUCTION);
+    }
+
+    const messages: Anthropic.MessageParam[] = request.messages
+      .filter((m) => m.role !== 'system')
+      .map((m) => ({
+        role: m.role as 'user' | 'assistant',
+        content: m.content,
+      }));
+
+    // Prefill the assistant turn so the model starts inside a JSON object
+    const prefill = request.json_mode && messages[messages.length - 1]?.role === 'user' ? '{' : '';
+    if (prefill) {
+      messages.push({ role: 'assistant', content: prefill });
+    }
+
+    let response: Anthropic.Message;
+
+    try {
+      response = await this.getClient().messages.create({
+        model: request.model,
+        max_tokens: request.max_tokens,
+        temperature: request.temperature,
+        ...(systemParts.length > 0 && { system: systemParts.join('\n\n') }),
+        messages,
+      });
+    } catch (error) {
+      throw this.mapError(error);
+    }
+
+    const text = response.content
+      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+      .map((block) => block.text)
+      .join('');
+
+    if (!text) {
+      throw new LLMProviderError(this.name, 'empty_response', 'Empty response from Anthropic');
+    }
+
+    return {
+      content: prefill + text,
+      model: response.model,
+      usage: {
+        input_tokens: response.usage.input_tokens,
+        output_tokens: response.usage.output_tokens,
+      },
+    };
+  }
+
+  /**
+   * Translate Anthropic SDK errors into LLMProviderError.
+   */
+  private mapError(error: unknown): LLMProviderError {
+    if (error instanceof Anthropic.APIError) {
+      return mapHttpError(this.name, error, {
+        timeout: error instanceof Anthropic.APIConnectionTimeoutError,
+        connection: error instanceof Anthropic.APIConnectionError,
+      });
+    }
+    return new LLMProviderError(
+      this.name,
+      'unknown',
+      error instanceof Error ? error.message : String(error),
+      { cause: error }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * LLM Cassettes
+ *
+ * Record/replay layer for deterministic, offline pipeline runs.
+ * In `record` mode every completion is forwarded to the real provider and
+ * written to the cassette directory; in `replay` mode responses are served
+ * from disk and a missing recording is a hard error.
+ *
+ * Each recording is stored as `<dir>/<key>.json`, where the key is a
+ * SHA-256 hash of the provider, model, messages and sampling options.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { LLMCapabilities, LLMProvider, LLMRequest, LLMResponse } from './provider.js';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+/**
+ * Thrown in replay mode when no recording exists for a request.
+ */
+export class CassetteMissError extends Error {
+  readonly key: string;
+
+  constructor(key: string, dir: string) {
+    super(
+      `No cassette recording for request ${key} in ${dir}. ` +
+      'Re-run with LLM_CASSETTE_MODE=record to capture it.'
+    );
+    this.name = 'CassetteMissError';
+    this.key = key;
+  }
+}
+
+/**
+ * Stored cassette entry.
+ */
+interface CassetteEntry {
+  key: string;
+  request: LLMRequest;
+  response: LLMResponse;
+  recorded_at: string;
+}
+
+/**
+ * Compute the cassette key for a request.
+ * Only fields that affect the completion are hashed; the provider is part
+ * of the key, since the same model name may be served by several providers.
+ *
+ * @param request - Completion request
+ * @param provider - Name of the provider serving the request
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function cassetteKey(request: LLMRequest, provider: LLMProvider['name']): string {
+  const payload = JSON.stringify({
+    provider,
+    model: request.model,
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: request.max_tokens,
+    json_mode: request.json_mode ?? false,
+    ...(request.sample !== undefined && { sample: request.sample }),
+  });
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+/**
+ * Provider decorator that records or replays completions.
+ */
+export class CassetteProvider implements LLMProvider {
+  readonly name: LLMProvider['name'];
+  readonly capabilities: LLMCapabilities;
+
+  constructor(
+    private inner: LLMProvider,
+    private mode: Exclude<CassetteMode, 'off'>,
+    private dir: string
+  ) {
+    this.name = inner.name;
+    this.capabilities = inner.capabilities;
+  }
+
+  /**
+   * Serve the request from the cassette (replay) or forward and record it.
+   *
+   * @param request Resolved completion request
+   * @returns Recorded or live response
+   */
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const key = cassetteKey(request, this.name);
+    const path = join(this.dir, `${key}.json`);
+
+    if (this.mode === 'replay') {
+      let raw: string;
+      try {
+        raw = await readFile(path, 'utf-8');
+      } catch {
+        throw new CassetteMissError(key, this.dir);
+      }
+      const entry = JSON.parse(raw) as CassetteEntry;
+      return entry.response;
+    }
+
+    const response = await this.inner.complete(request);
+
+    const entry: CassetteEntry = {
+      key,
+      request,
+      response,
+      recorded_at: new Date().toISOString(),
+    };
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(path, JSON.stringify(entry, null, 2), 'utf-8');
+
+    return response;
+  }
+}
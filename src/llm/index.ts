@@ -0,0 +1,79 @@
+/**
+ * LLM provider registry
+ *
+ * Resolves a configured provider name to a concrete LLMProvider
+ * implementation and exposes the provider-neutral types.
+ */
+
+import { config } from '../config/index.js';
+import type { LLMProviderName } from '../types/index.js';
+import type { LLMProvider } from './provider.js';
+import { OpenAIProvider, resolveModelAlias } from './openai-provider.js';
+import { AnthropicProvider } from './anthropic-provider.js';
+import { CassetteProvider } from './cassette.js';
+import { ResilientProvider } from './retry.js';
+
+export * from './provider.js';
+export { CassetteMissError, cassetteKey } from './cassette.js';
+export type { CassetteMode } from './cassette.js';
+export { isRetryable, withRetry } from './retry.js';
+export type { RetryOptions } from './retry.js';
+export { RateLimiter, getSharedRateLimiter } from './rate-limiter.js';
+export { ResponseCache, getResponseCache } from './response-cache.js';
+export type { CacheStats } from './response-cache.js';
+export { UsageTracker, addUsage, emptyUsage, estimateCostUsd, usageFromResponse } from './usage.js';
+
+/**
+ * Create the provider implementation for the given name.
+ * The vendor provider is wrapped with the shared rate limiter and retries,
+ * and the result in a CassetteProvider when record/replay is enabled
+ * (so replayed runs are never throttled).
+ *
+ * @param name - Provider name from configuration
+ * @returns A new LLMProvider instance
+ */
+export function createProvider(name: LLMProviderName): LLMProvider {
+  const provider = new ResilientProvider(createVendorProvider(name));
+  const { mode, dir } = config.llm.cassette;
+
+  if (mode === 'record' || mode === 'replay') {
+    return new CassetteProvider(provider, mode, dir);
+  }
+  return provider;
+}
+
+/**
+ * Instantiate the vendor-specific provider.
+ */
+function createVendorProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider();
+    case 'anthropic':
+      return new AnthropicProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
+
+/**
+ * Default model for a provider when an agent does not specify one.
+ *
+ * @param name - Provider name
+ * @returns Model identifier from configuration
+ */
+export function defaultModelFor(name: LLMProviderName): string {
+  return name === 'anthropic' ? config.llm.anthropic.model : config.llm.openai.model;
+}
+
+/**
+ * Model a provider actually calls for a requested model (OpenAI model
+ * aliases applied).
+ *
+ * @param name - Provider name
+ * @param model - Requested model
+ * @returns Model sent to the backend
+ */
+export function servedModelFor(name: LLMProviderName, model: string): string {
+  return name === 'openai' ? resolveModelAlias(model) : model;
+}
@@ -0,0 +1,110 @@
+/**
+ * OpenAI Provider
+ *
+ * LLMProvider implementation backed by OpenAI's Chat Completions API.
+ * Also serves any OpenAI-compatible server (vLLM, llama.cpp server, Ollama)
+ * through `config.llm.openai.baseURL`, extra headers and model aliases.
+ */
+
+import OpenAI from 'openai';
+import { config } from '../config/index.js';
+import { LLMProviderError, mapHttpError } from './provider.js';
+import type { LLMCapabilities, LLMProvider, LLMRequest, LLMResponse } from './provider.js';
+
+/**
+ * Model the backend serves for a requested model, after `OPENAI_MODEL_ALIASES`.
+ *
+ * @param model - Requested model name
+ * @returns Aliased model name, or the requested one
+ */
+export function resolveModelAlias(model: string): string {
+  return config.llm.openai.modelAliases[model] ?? model;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly capabilities: LLMCapabilities = { ...config.llm.openai.capabilities };
+  private client?: OpenAI;
+
+  /**
+   * Lazily create the SDK client so that agents can be constructed
+   * without credentials for providers they never call.
+   */
+  private getClient(): OpenAI {
+    if (!this.client) {
+      const { apiKey, baseURL, headers, timeoutMs } = config.llm.openai;
+      this.client = new OpenAI({
+        // The SDK rejects an empty key; local servers typically ignore it
+        apiKey: apiKey || (baseURL ? 'not-needed' : apiKey),
+        baseURL,
+        defaultHeaders: headers,
+        timeout: timeoutMs,
+        // Retries are handled by ResilientProvider
+        maxRetries: 0,
+      });
+    }
+    return this.client;
+  }
+
+  /**
+   * Call the Chat Completions API and normalize the response.
+   *
+   * @param request Resolved completion request
+   * @returns LLMResponse with content and usage info
+   */
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    let response: OpenAI.Chat.Completions.ChatCompletion;
+
+    const model = resolveModelAlias(request.model);
+    const jsonMode = request.json_mode && this.capabilities.jsonMode;
+
+    try {
+      response = await this.getClient().chat.completions.create({
+        model,
+        max_tokens: request.max_tokens,
+        temperature: request.temperature,
+        messages: request.messages.map((m) => ({
+          role: m.role,
+          content: m.content,
+        })),
+        ...(jsonMode && { response_format: { type: 'json_object' as const } }),
+      });
+    } catch (error) {
+      throw this.mapError(error);
+    }
+
+    const choice = response.choices[0];
+    if (!choice?.message.content) {
+      throw new LLMProviderError(this.name, 'empty_response', 'Empty response from OpenAI');
+    }
+
+    return {
+      content: choice.message.content,
+      model: response.model,
+      usage: response.usage
+        ? {
+            input_tokens: response.usage.prompt_tokens,
+            output_tokens: response.usage.completion_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Translate OpenAI SDK errors into LLMProviderError.
+   */
+  private mapError(error: unknown): LLMProviderError {
+    if (error instanceof OpenAI.APIError) {
+      return mapHttpError(this.name, error, {
+        timeout: error instanceof OpenAI.APIConnectionTimeoutError,
+        connection: error instanceof OpenAI.APIConnectionError,
+      });
+    }
+    return new LLMProviderError(
+      this.name,
+      'unknown',
+      error instanceof Error ? error.message : String(error),
+      { cause: error }
+    );
+  }
+}
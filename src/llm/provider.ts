@@ -0,0 +1,164 @@
+/**
+ * LLM Provider Interface
+ *
+ * Defines the vendor-neutral contract every LLM backend implements, along
+ * with the normalized request/response shapes and error type used by the
+ * agents. Agents only ever talk to an LLMProvider, never to a vendor SDK.
+ */
+
+import type { LLMProviderName } from '../types/index.js';
+
+/**
+ * Represents a message sent to the LLM.
+ */
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Represents a response from the LLM.
+ */
+export interface LLMResponse {
+  content: string;
+  model?: string;               // Model reported by the provider
+  cached?: boolean;             // Served from the response cache (no tokens billed)
+  fallback?: boolean;           // Served by the agent's fallback model after its model failed
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+/**
+ * A fully resolved completion request.
+ */
+export interface LLMRequest {
+  model: string;
+  messages: LLMMessage[];
+  temperature: number;
+  max_tokens: number;
+  json_mode?: boolean;          // Ask the provider for a single JSON object
+  sample?: number;              // Index when the same prompt is sampled repeatedly; keeps samples apart in the cache and cassettes
+}
+
+/**
+ * Optional features a backend may or may not support.
+ */
+export interface LLMCapabilities {
+  jsonMode: boolean;            // Native JSON-object output mode
+}
+
+/**
+ * Contract implemented by every LLM backend.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly capabilities: LLMCapabilities;
+
+  /**
+   * Run a single chat completion and return the normalized response.
+   * Implementations must throw LLMProviderError for vendor failures.
+   */
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+/**
+ * Normalized failure categories shared by all providers.
+ */
+export type LLMErrorKind =
+  | 'rate_limit'
+  | 'timeout'
+  | 'connection'
+  | 'authentication'
+  | 'invalid_request'
+  | 'server'
+  | 'empty_response'
+  | 'unknown';
+
+/**
+ * Error thrown by providers, independent of the vendor SDK that produced it.
+ */
+export class LLMProviderError extends Error {
+  readonly provider: LLMProviderName;
+  readonly kind: LLMErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    provider: LLMProviderName,
+    kind: LLMErrorKind,
+    message: string,
+    options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}
+  ) {
+    super(`[${provider}] ${message}`, { cause: options.cause });
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Map an HTTP-style SDK error onto an LLMProviderError.
+ * Both vendor SDKs expose `status` and `headers` on their API errors,
+ * so the classification is shared here.
+ *
+ * @param provider - Provider that raised the error
+ * @param error - Original SDK error
+ * @param flags - Whether the SDK reported a timeout or connection failure
+ * @returns Normalized provider error
+ */
+export function mapHttpError(
+  provider: LLMProviderName,
+  error: { status?: number; headers?: Record<string, string | null | undefined>; message?: string },
+  flags: { timeout?: boolean; connection?: boolean } = {}
+): LLMProviderError {
+  const status = error.status;
+  const message = error.message || 'Unknown provider error';
+  const retryAfterMs = parseRetryAfter(error.headers);
+
+  let kind: LLMErrorKind = 'unknown';
+  if (flags.timeout) {
+    kind = 'timeout';
+  } else if (flags.connection) {
+    kind = 'connection';
+  } else if (status === 429) {
+    kind = 'rate_limit';
+  } else if (status === 401 || status === 403) {
+    kind = 'authentication';
+  } else if (status === 408) {
+    kind = 'timeout';
+  } else if (status !== undefined && status >= 500) {
+    kind = 'server';
+  } else if (status !== undefined && status >= 400) {
+    kind = 'invalid_request';
+  }
+
+  return new LLMProviderError(provider, kind, message, { status, retryAfterMs, cause: error });
+}
+
+/**
+ * Read `retry-after-ms` / `retry-after` response headers into milliseconds.
+ * `retry-after` may be either a number of seconds or an HTTP date.
+ */
+function parseRetryAfter(headers?: Record<string, string | null | undefined>): number | undefined {
+  if (!headers) return undefined;
+
+  const ms = headers['retry-after-ms'];
+  if (ms && !Number.isNaN(Number(ms))) {
+    return Number(ms);
+  }
+
+  const value = headers['retry-after'];
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,129 @@
+/**
+ * Rate Limiter
+ *
+ * Token-bucket limiter enforcing requests-per-minute and tokens-per-minute
+ * budgets. A single shared instance is used by every agent in the process,
+ * so concurrent papers cannot collectively exceed the vendor limits.
+ */
+
+import { config } from '../config/index.js';
+
+/**
+ * A single continuously refilling bucket.
+ */
+class Bucket {
+  private available: number;
+  private updatedAt = Date.now();
+
+  constructor(private capacity: number, private refillPerMs: number) {
+    this.available = capacity;
+  }
+
+  /**
+   * Refill according to elapsed time.
+   */
+  private refill(): void {
+    const now = Date.now();
+    this.available = Math.min(this.capacity, this.available + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+  }
+
+  /**
+   * Milliseconds until `amount` units are available (0 if available now).
+   */
+  waitTime(amount: number): number {
+    this.refill();
+    const needed = Math.min(amount, this.capacity) - this.available;
+    return needed <= 0 ? 0 : Math.ceil(needed / this.refillPerMs);
+  }
+
+  /**
+   * Take `amount` units (may go negative when over-estimating is corrected later).
+   */
+  take(amount: number): void {
+    this.refill();
+    this.available -= Math.min(amount, this.capacity);
+  }
+
+  /**
+   * Return units to the bucket (e.g. when the estimate was too high).
+   */
+  give(amount: number): void {
+    this.refill();
+    this.available = Math.min(this.capacity, this.available + amount);
+  }
+}
+
+export class RateLimiter {
+  private requests?: Bucket;
+  private tokens?: Bucket;
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param requestsPerMinute - Request budget (0 disables the request bucket)
+   * @param tokensPerMinute - Token budget (0 disables the token bucket)
+   */
+  constructor(requestsPerMinute: number, tokensPerMinute: number) {
+    if (requestsPerMinute > 0) {
+      this.requests = new Bucket(requestsPerMinute, requestsPerMinute / 60000);
+    }
+    if (tokensPerMinute > 0) {
+      this.tokens = new Bucket(tokensPerMinute, tokensPerMinute / 60000);
+    }
+  }
+
+  /**
+   * Wait until one request and `estimatedTokens` tokens are available, then take them.
+   * Callers are served in FIFO order.
+   *
+   * @param estimatedTokens - Expected prompt + completion tokens
+   */
+  async acquire(estimatedTokens: number): Promise<void> {
+    const turn = this.queue.then(async () => {
+      for (;;) {
+        const wait = Math.max(
+          this.requests?.waitTime(1) ?? 0,
+          this.tokens?.waitTime(estimatedTokens) ?? 0
+        );
+        if (wait === 0) break;
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+      this.requests?.take(1);
+      this.tokens?.take(estimatedTokens);
+    });
+
+    // Keep the chain alive even if a waiter throws
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  /**
+   * Correct the token bucket once the real usage is known.
+   *
+   * @param estimatedTokens - Tokens taken in acquire()
+   * @param actualTokens - Tokens reported by the provider
+   */
+  settle(estimatedTokens: number, actualTokens: number): void {
+    const diff = estimatedTokens - actualTokens;
+    if (diff > 0) {
+      this.tokens?.give(diff);
+    } else if (diff < 0) {
+      this.tokens?.take(-diff);
+    }
+  }
+}
+
+let sharedLimiter: RateLimiter | undefined;
+
+/**
+ * The process-wide limiter configured from `config.llm.rateLimit`.
+ */
+export function getSharedRateLimiter(): RateLimiter {
+  if (!sharedLimiter) {
+    sharedLimiter = new RateLimiter(
+      config.llm.rateLimit.requestsPerMinute,
+      config.llm.rateLimit.tokensPerMinute
+    );
+  }
+  return sharedLimiter;
+}
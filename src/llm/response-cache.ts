@@ -0,0 +1,156 @@
+/**
+ * LLM Response Cache
+ *
+ * Content-addressed cache sitting in front of every agent LLM call.
+ * Entries are keyed by provider, served model (after aliases), base URL,
+ * temperature, a hash of the prompt messages and the agent's prompt
+ * version, stored in the `llm_cache` table, and
+ * expire after `config.llm.cache.ttlSeconds`. Cache failures never fail a
+ * call; they are logged and treated as misses.
+ */
+
+import { createHash } from 'crypto';
+import { config } from '../config/index.js';
+import { LLMCacheRepository } from '../database/repositories/llm-cache-repository.js';
+import type { LLMCacheKeyParts } from '../database/repositories/llm-cache-repository.js';
+import { resolveModelAlias } from './openai-provider.js';
+import type { LLMProvider, LLMRequest, LLMResponse } from './provider.js';
+
+/**
+ * Hit/miss counters for the current process.
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+  errors: number;
+}
+
+export class ResponseCache {
+  private repo = new LLMCacheRepository();
+  private counters: CacheStats = { hits: 0, misses: 0, writes: 0, errors: 0 };
+  private disabled = false;
+
+  /**
+   * Whether the cache takes part in calls at all. Cassette record/replay
+   * runs skip it so recordings are complete and replays deterministic.
+   */
+  get enabled(): boolean {
+    return !this.disabled && config.llm.cache.enabled && config.llm.cassette.mode === 'off';
+  }
+
+  /**
+   * Turn the cache off for the rest of the process, e.g. when running
+   * without a database.
+   */
+  disable(): void {
+    this.disabled = true;
+  }
+
+  /**
+   * Snapshot of the hit/miss counters.
+   */
+  get stats(): CacheStats {
+    return { ...this.counters };
+  }
+
+  /**
+   * Derive the cache key and the columns it was computed from.
+   * The key names the backend that answers: the provider, the model it
+   * serves after `OPENAI_MODEL_ALIASES` and the OpenAI base URL, so one
+   * backend's responses are never served for another's requests.
+   * Repeated samples of one prompt (`request.sample`) get distinct keys.
+   *
+   * @param request - Completion request
+   * @param promptVersion - Version of the agent's prompt templates
+   * @param provider - Provider the request is sent to
+   * @returns Key parts
+   */
+  keyFor(request: LLMRequest, promptVersion: string, provider: LLMProvider['name']): LLMCacheKeyParts {
+    const openai = provider === 'openai';
+    const model = openai ? resolveModelAlias(request.model) : request.model;
+    const baseURL = openai ? config.llm.openai.baseURL ?? null : null;
+
+    const promptHash = sha256(JSON.stringify({
+      messages: request.messages,
+      max_tokens: request.max_tokens,
+      json_mode: request.json_mode ?? false,
+    }));
+    const cacheKey = sha256(JSON.stringify({
+      provider,
+      model,
+      base_url: baseURL,
+      temperature: request.temperature,
+      prompt_hash: promptHash,
+      prompt_version: promptVersion,
+      ...(request.sample !== undefined && { sample: request.sample }),
+    }));
+
+    return {
+      cacheKey,
+      provider,
+      model,
+      baseURL,
+      temperature: request.temperature,
+      promptHash,
+      promptVersion,
+    };
+  }
+
+  /**
+   * Look up a cached response.
+   *
+   * @param parts - Key parts from keyFor()
+   * @returns The cached response marked as `cached`, or null on miss
+   */
+  async get(parts: LLMCacheKeyParts): Promise<LLMResponse | null> {
+    try {
+      const response = await this.repo.get(parts.cacheKey);
+      if (response) {
+        this.counters.hits++;
+        return { ...response, cached: true };
+      }
+    } catch (error) {
+      this.counters.errors++;
+      console.warn('LLM cache lookup failed:', error);
+    }
+
+    this.counters.misses++;
+    return null;
+  }
+
+  /**
+   * Store a response.
+   *
+   * @param parts - Key parts from keyFor()
+   * @param response - Live provider response
+   */
+  async set(parts: LLMCacheKeyParts, response: LLMResponse): Promise<void> {
+    try {
+      await this.repo.set(parts, response, config.llm.cache.ttlSeconds);
+      this.counters.writes++;
+    } catch (error) {
+      this.counters.errors++;
+      console.warn('LLM cache write failed:', error);
+    }
+  }
+}
+
+/**
+ * Hex-encoded SHA-256 digest.
+ */
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+let sharedCache: ResponseCache | undefined;
+
+/**
+ * The process-wide response cache.
+ */
+export function getResponseCache(): ResponseCache {
+  if (!sharedCache) {
+    sharedCache = new ResponseCache();
+  }
+  return sharedCache;
+}
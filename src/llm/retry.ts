@@ -0,0 +1,141 @@
+/**
+ * Retry and backoff
+ *
+ * Classifies provider failures as retryable or fatal and retries the
+ * retryable ones with exponential backoff and jitter, honoring the
+ * provider's `Retry-After` hint when present. ResilientProvider combines
+ * this with the shared rate limiter around a vendor provider.
+ */
+
+import { config } from '../config/index.js';
+import { LLMProviderError } from './provider.js';
+import type { LLMCapabilities, LLMProvider, LLMRequest, LLMResponse } from './provider.js';
+import { getSharedRateLimiter } from './rate-limiter.js';
+import type { RateLimiter } from './rate-limiter.js';
+
+/**
+ * Options for withRetry.
+ */
+export interface RetryOptions {
+  retries: number;              // Retries after the first attempt
+  baseDelayMs: number;          // Delay before the first retry
+  maxDelayMs: number;           // Upper bound for a single backoff delay
+  label?: string;               // Used in log messages
+}
+
+/**
+ * Whether an error is worth retrying.
+ * Rate limits, timeouts, connection failures, 5xx responses and empty
+ * completions are transient; authentication and invalid requests are not.
+ */
+export function isRetryable(error: unknown): boolean {
+  if (!(error instanceof LLMProviderError)) {
+    return false;
+  }
+
+  switch (error.kind) {
+    case 'rate_limit':
+    case 'timeout':
+    case 'connection':
+    case 'server':
+    case 'empty_response':
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Backoff delay for a retry: the provider's Retry-After if given,
+ * otherwise exponential backoff with "equal jitter".
+ *
+ * @param attempt - Zero-based retry number
+ * @param error - Error that triggered the retry
+ * @param options - Retry options
+ * @returns Delay in milliseconds
+ */
+export function backoffDelay(attempt: number, error: unknown, options: RetryOptions): number {
+  if (error instanceof LLMProviderError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, options.maxDelayMs);
+  }
+
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/**
+ * Run `fn`, retrying retryable failures.
+ *
+ * @param fn - Operation to run
+ * @param options - Retry options
+ * @returns Result of the first successful attempt
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= options.retries || !isRetryable(error)) {
+        throw error;
+      }
+
+      const delay = backoffDelay(attempt, error, options);
+      console.warn(
+        `${options.label ?? 'LLM call'} failed (${error instanceof Error ? error.message : error}); ` +
+        `retry ${attempt + 1}/${options.retries} in ${Math.round(delay)}ms`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Rough token estimate for rate limiting: ~4 characters per token
+ * for the prompt plus the full completion budget.
+ */
+function estimateTokens(request: LLMRequest): number {
+  const promptChars = request.messages.reduce((sum, m) => sum + m.content.length, 0);
+  return Math.ceil(promptChars / 4) + request.max_tokens;
+}
+
+/**
+ * Provider decorator adding shared rate limiting and retries.
+ */
+export class ResilientProvider implements LLMProvider {
+  readonly name: LLMProvider['name'];
+  readonly capabilities: LLMCapabilities;
+  private limiter: RateLimiter;
+
+  constructor(private inner: LLMProvider, limiter: RateLimiter = getSharedRateLimiter()) {
+    this.name = inner.name;
+    this.capabilities = inner.capabilities;
+    this.limiter = limiter;
+  }
+
+  /**
+   * Acquire rate-limit capacity and call the inner provider, retrying transient failures.
+   *
+   * @param request Resolved completion request
+   * @returns Provider response
+   */
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const estimated = estimateTokens(request);
+
+    return withRetry(
+      async () => {
+        await this.limiter.acquire(estimated);
+        const response = await this.inner.complete(request);
+        if (response.usage) {
+          this.limiter.settle(estimated, response.usage.input_tokens + response.usage.output_tokens);
+        }
+        return response;
+      },
+      {
+        retries: config.processing.retryAttempts,
+        baseDelayMs: config.processing.retryDelay,
+        maxDelayMs: config.processing.maxRetryDelay,
+        label: `${this.name}/${request.model}`,
+      }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Token usage and cost accounting
+ *
+ * Helpers for turning provider usage into TokenUsage records with an
+ * estimated USD cost (from `config.llm.pricing`), and for aggregating
+ * them per stage, per paper and per ingestion run.
+ */
+
+import { config } from '../config/index.js';
+import type { TokenUsage } from '../types/index.js';
+import type { LLMResponse } from './provider.js';
+
+// Models we have already warned about, to avoid log spam
+const unpricedModels = new Set<string>();
+
+/**
+ * An empty usage record.
+ */
+export function emptyUsage(): TokenUsage {
+  return { calls: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 };
+}
+
+/**
+ * Sum two usage records.
+ */
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  const models = [...new Set([...(a.models ?? []), ...(b.models ?? [])])];
+
+  return {
+    calls: a.calls + b.calls,
+    input_tokens: a.input_tokens + b.input_tokens,
+    output_tokens: a.output_tokens + b.output_tokens,
+    cost_usd: a.cost_usd + b.cost_usd,
+    ...(models.length > 0 && { models }),
+  };
+}
+
+/**
+ * Estimate the USD cost of a call from the configured price table.
+ * Unknown models are treated as free and reported once.
+ *
+ * @param model - Model name the call was billed against
+ * @param inputTokens - Prompt tokens
+ * @param outputTokens - Completion tokens
+ * @returns Estimated cost in USD
+ */
+export function estimateCostUsd(model: string, inputTokens: number, outputTokens: number): number {
+  const price = config.llm.pricing[model];
+  if (!price) {
+    if (!unpricedModels.has(model)) {
+      unpricedModels.add(model);
+      console.warn(`No price configured for model "${model}"; counting its cost as $0`);
+    }
+    return 0;
+  }
+
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Build the usage record for a single LLM call.
+ * Responses served from the cache are free. The call is priced by the model
+ * the provider reports, or by the model it was sent to when the reported
+ * name has no price (e.g. a dated snapshot name).
+ *
+ * @param model - Model the call was sent to, after aliases
+ * @param response - Provider response
+ * @returns TokenUsage for one call
+ */
+export function usageFromResponse(model: string, response: LLMResponse): TokenUsage {
+  // Cache hits cost nothing and are not counted as calls
+  if (response.cached) {
+    return emptyUsage();
+  }
+
+  const input = response.usage?.input_tokens ?? 0;
+  const output = response.usage?.output_tokens ?? 0;
+  const billed = response.model && config.llm.pricing[response.model] ? response.model : model;
+
+  return {
+    calls: 1,
+    input_tokens: input,
+    output_tokens: output,
+    cost_usd: estimateCostUsd(billed, input, output),
+    models: [billed],
+  };
+}
+
+/**
+ * Mutable accumulator shared across papers of an ingestion run.
+ */
+export class UsageTracker {
+  private usage: TokenUsage = emptyUsage();
+
+  /**
+   * Add a usage record to the running total.
+   */
+  record(usage: TokenUsage): void {
+    this.usage = addUsage(this.usage, usage);
+  }
+
+  /**
+   * Current running total.
+   */
+  get total(): TokenUsage {
+    return { ...this.usage };
+  }
+}
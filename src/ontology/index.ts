@@ -0,0 +1,189 @@
+/**
+ * Graph Ontology
+ *
+ * Machine-readable domain and range rules for every edge type: which node
+ * types an edge may start and end at, and whether it links two papers.
+ * Relationships that break a rule are rejected, reversed, or switched to an
+ * alternative edge type that fits, depending on `config.ontology.onViolation`.
+ */
+
+import type {
+  EdgeType,
+  NodeType,
+  OntologyViolationCounts,
+  OntologyViolationPolicy,
+} from '../types/index.js';
+
+/**
+ * Domain and range of one edge type.
+ */
+export interface EdgeRule {
+  source: readonly NodeType[];
+  target: readonly NodeType[];
+  paperToPaper: boolean;
+  alternatives: readonly EdgeType[];  // Edge types tried, in order, when retyping a violation
+}
+
+// Node types that describe research ideas rather than papers or people
+const IDEAS: readonly NodeType[] = ['concept', 'method', 'technique', 'application', 'challenge'];
+const METHODS: readonly NodeType[] = ['method', 'technique'];
+const CONTRIBUTIONS: readonly NodeType[] = [...IDEAS, 'dataset', 'metric', 'result'];
+
+/**
+ * Paper-to-paper rule with the given retyping alternatives.
+ */
+function paperToPaper(alternatives: readonly EdgeType[] = []): EdgeRule {
+  return { source: ['paper'], target: ['paper'], paperToPaper: true, alternatives };
+}
+
+/**
+ * Domain and range rules, keyed by edge type.
+ */
+export const ONTOLOGY: Record<EdgeType, EdgeRule> = {
+  // Paper-to-Paper
+  cites: paperToPaper(),
+  improves_on: paperToPaper(['outperforms', 'related_to']),
+  extends: paperToPaper(['generalizes', 'related_to']),
+  compares_with: paperToPaper(['related_to']),
+  builds_upon: paperToPaper(['requires', 'related_to']),
+  contradicts: paperToPaper(['related_to']),
+
+  // Paper-to-Concept
+  introduces: { source: ['paper'], target: CONTRIBUTIONS, paperToPaper: false, alternatives: ['related_to'] },
+  applies: { source: ['paper'], target: CONTRIBUTIONS, paperToPaper: false, alternatives: ['requires', 'related_to'] },
+  evaluates: { source: ['paper'], target: CONTRIBUTIONS, paperToPaper: false, alternatives: ['related_to'] },
+  addresses: { source: ['paper', ...METHODS], target: ['challenge', 'application'], paperToPaper: false, alternatives: ['solves'] },
+
+  // Concept-to-Concept
+  related_to: { source: CONTRIBUTIONS, target: CONTRIBUTIONS, paperToPaper: false, alternatives: [] },
+  enables: { source: IDEAS, target: IDEAS, paperToPaper: false, alternatives: ['related_to'] },
+  requires: { source: IDEAS, target: [...IDEAS, 'dataset'], paperToPaper: false, alternatives: ['related_to'] },
+  alternative_to: { source: IDEAS, target: IDEAS, paperToPaper: false, alternatives: ['related_to'] },
+  generalizes: { source: IDEAS, target: IDEAS, paperToPaper: false, alternatives: ['related_to'] },
+  specializes: { source: IDEAS, target: IDEAS, paperToPaper: false, alternatives: ['related_to'] },
+
+  // Method relationships
+  outperforms: { source: METHODS, target: METHODS, paperToPaper: false, alternatives: ['improves_on'] },
+  combines_with: { source: METHODS, target: METHODS, paperToPaper: false, alternatives: ['related_to'] },
+  replaces: { source: METHODS, target: METHODS, paperToPaper: false, alternatives: ['improves_on', 'alternative_to', 'related_to'] },
+
+  // Authorship
+  authored_by: { source: ['paper'], target: ['author'], paperToPaper: false, alternatives: [] },
+
+  // Other
+  uses_dataset: { source: ['paper', ...METHODS], target: ['dataset'], paperToPaper: false, alternatives: ['measures_with', 'evaluates'] },
+  measures_with: { source: ['paper', ...METHODS], target: ['metric'], paperToPaper: false, alternatives: ['uses_dataset', 'evaluates'] },
+  solves: { source: METHODS, target: ['challenge', 'application'], paperToPaper: false, alternatives: ['addresses'] },
+  inspired_by: { source: ['paper', ...IDEAS], target: ['paper', ...IDEAS], paperToPaper: false, alternatives: ['related_to'] },
+};
+
+/**
+ * Edge types whose direction carries no meaning ("A related_to B" = "B related_to A").
+ */
+export const SYMMETRIC_EDGE_TYPES: ReadonlySet<EdgeType> = new Set<EdgeType>([
+  'related_to',
+  'alternative_to',
+  'compares_with',
+  'combines_with',
+]);
+
+/**
+ * How a relationship was resolved against the ontology.
+ */
+export interface OntologyDecision {
+  action: 'keep' | 'flip' | 'retype' | 'reject';
+  type: EdgeType;     // Edge type to store (the alternative when retyped)
+  reason?: string;    // Rule that was broken, for violations
+}
+
+/**
+ * Whether an edge type allows the given endpoint types.
+ * An undefined endpoint type (e.g. a name not yet resolved to a node) matches any rule.
+ */
+export function edgeAllowed(type: EdgeType, sourceType?: NodeType, targetType?: NodeType): boolean {
+  const rule = ONTOLOGY[type];
+  return (sourceType === undefined || rule.source.includes(sourceType))
+    && (targetType === undefined || rule.target.includes(targetType));
+}
+
+/**
+ * Check a relationship against the ontology and decide how to resolve a violation.
+ *
+ * 'flip' reverses the relationship when the reversed edge is allowed;
+ * 'retype' additionally tries the rule's alternative edge types, in order.
+ * Anything else is rejected.
+ *
+ * @param type - Extracted edge type
+ * @param sourceType - Node type of the source, if known
+ * @param targetType - Node type of the target, if known
+ * @param policy - How to resolve violations
+ * @returns The decision and the edge type to store
+ */
+export function checkEdge(
+  type: EdgeType,
+  sourceType: NodeType | undefined,
+  targetType: NodeType | undefined,
+  policy: OntologyViolationPolicy
+): OntologyDecision {
+  if (edgeAllowed(type, sourceType, targetType)) {
+    return { action: 'keep', type };
+  }
+
+  const reason = `${type} does not allow ${sourceType ?? 'any'} -> ${targetType ?? 'any'}`;
+
+  if (policy !== 'reject' && edgeAllowed(type, targetType, sourceType)) {
+    return { action: 'flip', type, reason };
+  }
+
+  if (policy === 'retype') {
+    const alternative = ONTOLOGY[type].alternatives.find((alt) => edgeAllowed(alt, sourceType, targetType));
+    if (alternative) {
+      return { action: 'retype', type: alternative, reason };
+    }
+  }
+
+  return { action: 'reject', type, reason };
+}
+
+/**
+ * Counts with no violations.
+ */
+export function emptyViolationCounts(): OntologyViolationCounts {
+  return { flipped: 0, retyped: 0, rejected: 0, by_edge_type: {} };
+}
+
+/**
+ * Count a violation (decisions other than 'keep') against its original edge type.
+ */
+export function recordViolation(
+  counts: OntologyViolationCounts,
+  originalType: EdgeType,
+  decision: OntologyDecision
+): void {
+  if (decision.action === 'keep') return;
+
+  if (decision.action === 'flip') counts.flipped++;
+  else if (decision.action === 'retype') counts.retyped++;
+  else counts.rejected++;
+  counts.by_edge_type[originalType] = (counts.by_edge_type[originalType] ?? 0) + 1;
+}
+
+/**
+ * Sum two sets of violation counts.
+ */
+export function addViolationCounts(
+  a: OntologyViolationCounts,
+  b: OntologyViolationCounts
+): OntologyViolationCounts {
+  const byEdgeType = { ...a.by_edge_type };
+  for (const [type, count] of Object.entries(b.by_edge_type) as Array<[EdgeType, number]>) {
+    byEdgeType[type] = (byEdgeType[type] ?? 0) + count;
+  }
+
+  return {
+    flipped: a.flipped + b.flipped,
+    retyped: a.retyped + b.retyped,
+    rejected: a.rejected + b.rejected,
+    by_edge_type: byEdgeType,
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Author Linker
+ *
+ * Creates author nodes from a paper's author list and links the paper to
+ * them with `authored_by` edges. A name that differs from every known author
+ * but is a compatible variant of one ("G. Drettakis" vs "George Drettakis")
+ * is merged into it, as an alias, only when the two share co-authors;
+ * otherwise it becomes a new author node.
+ */
+
+import type { Sql } from 'postgres';
+import { compareLockKeys, sql } from '../database/client.js';
+import { NodeRepository } from '../database/repositories/node-repository.js';
+import { EdgeRepository } from '../database/repositories/edge-repository.js';
+import { namesCompatible, parseAuthorName } from '../text/author-names.js';
+import type { AuthorName } from '../text/author-names.js';
+import { config } from '../config/index.js';
+
+/**
+ * How an author name was resolved to an author node.
+ */
+export type AuthorMatchMethod = 'exact' | 'coauthor_overlap' | 'new';
+
+/**
+ * Outcome of linking one paper's authors.
+ */
+export interface AuthorLinkResult {
+  authors: number;    // Names with a parsable surname
+  linked: number;     // `authored_by` edges created or updated
+  by_method: Partial<Record<AuthorMatchMethod, number>>;
+}
+
+export class AuthorLinker {
+  private nodeRepo: NodeRepository;
+  private edgeRepo: EdgeRepository;
+
+  /**
+   * @param db - Database client; pass a transaction's client to write the links inside it
+   */
+  constructor(db: Sql = sql) {
+    this.nodeRepo = new NodeRepository(db);
+    this.edgeRepo = new EdgeRepository(db);
+  }
+
+  /**
+   * Upsert the authors of a paper and link them to the paper node.
+   *
+   * @param paperId - Node ID of the paper
+   * @param authors - Author names in byline order
+   * @returns Counts of linked authors per match method
+   */
+  async link(paperId: string, authors: string[]): Promise<AuthorLinkResult> {
+    const names = authors
+      .map((author) => ({ written: author, parsed: parseAuthorName(author) }))
+      .filter((name): name is { written: string; parsed: AuthorName } => name.parsed !== null);
+
+    const paperKeys = names.map((name) => name.parsed.key);
+    const linkedIds = new Set<string>();
+    const result: AuthorLinkResult = { authors: names.length, linked: 0, by_method: {} };
+
+    // Resolve in order of name key, so concurrent papers lock shared author nodes in the same order
+    const ordered = [...names.entries()].sort(([, a], [, b]) => compareLockKeys(a.parsed.key, b.parsed.key));
+
+    for (const [position, { written, parsed }] of ordered) {
+      // Keys of this author's co-authors on the current paper
+      const coauthorKeys = new Set(paperKeys.filter((_, i) => i !== position));
+      const match = await this.resolve(parsed, coauthorKeys, linkedIds);
+
+      linkedIds.add(match.nodeId);
+      await this.edgeRepo.create(
+        'authored_by',
+        paperId,
+        match.nodeId,
+        undefined,
+        undefined,
+        1.0,
+        'AuthorLinker',
+        {
+          position,
+          name_as_written: written,
+          match: { method: match.method, ...(match.overlap !== undefined ? { coauthor_overlap: match.overlap } : {}) },
+        }
+      );
+
+      result.linked++;
+      result.by_method[match.method] = (result.by_method[match.method] ?? 0) + 1;
+    }
+
+    return result;
+  }
+
+  /**
+   * Find or create the author node for a name.
+   * Order: exact name or recorded alias, then a compatible variant sharing at
+   * least `config.authors.minCoauthorOverlap` co-authors, then a new node.
+   */
+  private async resolve(
+    name: AuthorName,
+    coauthorKeys: Set<string>,
+    linkedIds: Set<string>
+  ): Promise<{ nodeId: string; method: AuthorMatchMethod; overlap?: number }> {
+    const metadata = { name_key: name.key };
+
+    const existing = await this.nodeRepo.findByName('author', name.full)
+      ?? await this.nodeRepo.findByAlias(name.full, 'author');
+    if (existing && !linkedIds.has(existing.id)) {
+      const nodeId = await this.nodeRepo.upsert('author', existing.name, metadata, 'AuthorLinker');
+      return { nodeId, method: 'exact' };
+    }
+
+    let best: { nodeId: string; overlap: number } | null = null;
+    for (const candidate of await this.nodeRepo.findAuthorsByKey(name.key)) {
+      // Two authors of the same paper are never the same person
+      if (linkedIds.has(candidate.id)) continue;
+
+      const candidateName = parseAuthorName(candidate.name);
+      if (!candidateName || !namesCompatible(name, candidateName)) continue;
+
+      const coauthors = await this.edgeRepo.findCoauthors(candidate.id);
+      const overlap = new Set(
+        coauthors
+          .map((coauthor) => parseAuthorName(coauthor.name)?.key)
+          .filter((key): key is string => key !== undefined && coauthorKeys.has(key))
+      ).size;
+
+      if (overlap >= config.authors.minCoauthorOverlap && (!best || overlap > best.overlap)) {
+        best = { nodeId: candidate.id, overlap };
+      }
+    }
+
+    if (best) {
+      const confidence = coauthorKeys.size > 0 ? Math.min(1, best.overlap / coauthorKeys.size) : 1.0;
+      await this.nodeRepo.addAlias(best.nodeId, 'author', name.full, 'AuthorLinker', confidence);
+      return { nodeId: best.nodeId, method: 'coauthor_overlap', overlap: best.overlap };
+    }
+
+    const nodeId = await this.nodeRepo.upsert('author', name.full, metadata, 'AuthorLinker');
+    return { nodeId, method: 'new' };
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Citation Linker
+ *
+ * Turns a paper's reference list into `cites` edges without any LLM call.
+ * Each parsed reference is matched to a paper node by arXiv ID, then DOI,
+ * then fuzzy title; references that match nothing can optionally become
+ * stub paper nodes so later citations and ingestion find them.
+ */
+
+import type { Sql } from 'postgres';
+import { sql } from '../database/client.js';
+import { NodeRepository } from '../database/repositories/node-repository.js';
+import { EdgeRepository } from '../database/repositories/edge-repository.js';
+import { parseReferences } from '../text/references.js';
+import type { ParsedReference } from '../text/references.js';
+import { config } from '../config/index.js';
+
+/**
+ * How a reference was resolved to a paper node.
+ */
+export type CitationMatchMethod = 'arxiv_id' | 'doi' | 'title' | 'stub';
+
+/**
+ * Outcome of linking one paper's references.
+ */
+export interface CitationLinkResult {
+  references: number;   // Entries parsed from the reference list
+  linked: number;       // `cites` edges created or updated
+  stubs: number;        // References linked to a stub paper node
+  unmatched: number;    // References left without an edge
+  by_method: Partial<Record<CitationMatchMethod, number>>;
+}
+
+export class CitationLinker {
+  private nodeRepo: NodeRepository;
+  private edgeRepo: EdgeRepository;
+
+  /**
+   * @param db - Database client; pass a transaction's client to write the links inside it
+   */
+  constructor(db: Sql = sql) {
+    this.nodeRepo = new NodeRepository(db);
+    this.edgeRepo = new EdgeRepository(db);
+  }
+
+  /**
+   * Parse the reference list of a paper and link it to the cited papers.
+   *
+   * @param paperId - Node ID of the citing paper
+   * @param fullText - Full text of the citing paper
+   * @returns Counts of parsed, linked, stubbed and unmatched references
+   */
+  async link(paperId: string, fullText: string): Promise<CitationLinkResult> {
+    const references = parseReferences(fullText);
+    const result: CitationLinkResult = {
+      references: references.length,
+      linked: 0,
+      stubs: 0,
+      unmatched: 0,
+      by_method: {},
+    };
+
+    for (const reference of references) {
+      const match = await this.resolve(reference);
+
+      // Unmatched, or the paper's own entry (e.g. an earlier version of itself)
+      if (!match || match.nodeId === paperId) {
+        result.unmatched++;
+        continue;
+      }
+
+      await this.edgeRepo.create(
+        'cites',
+        paperId,
+        match.nodeId,
+        undefined,
+        reference.raw,
+        match.score,
+        'CitationLinker',
+        {
+          reference_index: reference.index,
+          match: { method: match.method, score: match.score },
+          grounding: {
+            paper_id: paperId,
+            located: true,
+            start: reference.start,
+            end: reference.end,
+            score: 1,
+          },
+        }
+      );
+
+      result.linked++;
+      if (match.method === 'stub') result.stubs++;
+      result.by_method[match.method] = (result.by_method[match.method] ?? 0) + 1;
+    }
+
+    return result;
+  }
+
+  /**
+   * Find the paper node a reference points to, creating a stub if enabled.
+   */
+  private async resolve(
+    reference: ParsedReference
+  ): Promise<{ nodeId: string; method: CitationMatchMethod; score: number } | null> {
+    if (reference.arxiv_id) {
+      const node = await this.nodeRepo.findPaperByIdentifier({ arxiv_id: reference.arxiv_id });
+      if (node) return { nodeId: node.id, method: 'arxiv_id', score: 1.0 };
+    }
+
+    if (reference.doi) {
+      const node = await this.nodeRepo.findPaperByIdentifier({ doi: reference.doi });
+      if (node) return { nodeId: node.id, method: 'doi', score: 1.0 };
+    }
+
+    if (reference.title) {
+      const node = await this.nodeRepo.findPaperByTitle(reference.title, config.citations.minTitleSimilarity);
+      if (node) return { nodeId: node.id, method: 'title', score: Number(node.similarity) };
+    }
+
+    if (config.citations.createStubs && reference.title) {
+      const nodeId = await this.nodeRepo.createPaperStub(
+        reference.title,
+        { arxiv_id: reference.arxiv_id, doi: reference.doi, year: reference.year },
+        { reference_text: reference.raw },
+        'CitationLinker'
+      );
+      return { nodeId, method: 'stub', score: 1.0 };
+    }
+
+    return null;
+  }
+}
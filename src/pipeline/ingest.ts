@@ -6,6 +6,7 @@
  * 
  * Usage:
  *   npm run ingest
+ *   npm run ingest -- --from-stage relationships   # re-run one stage (and its dependents) from checkpoints
  */
 
 import { config, validateConfig } from '../config/index.js';
@@ -79,6 +80,22 @@ const PAPER_SOURCE_INFO = {
   },
 };
 
+/**
+ * Read `--from-stage <stage>` from the command line.
+ * Exits the process with an error message if the stage name is missing.
+ */
+function getFromStage(args: string[]): string | undefined {
+  const index = args.indexOf('--from-stage');
+  if (index === -1) return undefined;
+
+  const stage = args[index + 1];
+  if (!stage || stage.startsWith('--')) {
+    console.error('Error: --from-stage requires a stage name (e.g. --from-stage relationships)');
+    process.exit(1);
+  }
+  return stage;
+}
+
 /**
  * Main function to run the standalone ingestion pipeline.
  * Validates configuration, checks database connection, and runs ingestion.
@@ -154,8 +171,14 @@ async function runIngestion() {
   // Determine batch size based on source
   const batchSize = ACTIVE_PAPER_SOURCE === 'full' ? 2 : 5;
 
+  // Stages with valid checkpoints are restored; --from-stage forces one to re-run
+  const fromStage = getFromStage(process.argv.slice(2));
+  if (fromStage) {
+    console.log(`Re-running stage '${fromStage}' and the stages that depend on it`);
+  }
+
   try {
-    await pipeline.ingestPapers(papers, batchSize);
+    await pipeline.ingestPapers(papers, batchSize, { fromStage });
   } catch (error) {
     console.error('Error during ingestion:', error);
     process.exit(1);
@@ -3,33 +3,87 @@
  * 
  * Orchestrates the full pipeline from paper ingestion to knowledge graph construction.
  * Handles paper creation, entity and relationship extraction, storage, and status management.
+ *
+ * The LLM calls run outside any transaction; a paper's nodes, edges, results,
+ * links, summary and `completed` status are then written in one transaction,
+ * so a failure part-way leaves none of them behind. The same transaction
+ * retracts what the paper asserted in an earlier run but no longer does.
  */
 
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { Sql } from 'postgres';
+import { withTransaction } from '../database/client.js';
 import { PaperRepository } from '../database/repositories/paper-repository.js';
 import { NodeRepository } from '../database/repositories/node-repository.js';
 import { EdgeRepository } from '../database/repositories/edge-repository.js';
+import { RunRepository } from '../database/repositories/run-repository.js';
+import { ResultRepository } from '../database/repositories/result-repository.js';
+import { MentionRepository } from '../database/repositories/mention-repository.js';
 import { AgentOrchestrator } from '../agents/orchestrator.js';
+import { CitationLinker } from './citation-linker.js';
+import { AuthorLinker } from './author-linker.js';
+import { buildReprocessingReport, renderReprocessingMarkdown, summarizeDiff } from './reprocessing-report.js';
+import type { ReprocessingReport } from './reprocessing-report.js';
+import type { ProcessPaperOptions } from '../agents/orchestrator.js';
+import { UsageTracker, getResponseCache } from '../llm/index.js';
+import { addViolationCounts, emptyViolationCounts } from '../ontology/index.js';
+import { config } from '../config/index.js';
 import type { Paper, PaperAnalysis } from '../types/index.js';
 
+/**
+ * Repositories and linkers that write a paper's subgraph, bound to one database client.
+ */
+interface GraphWriters {
+  paperRepo: PaperRepository;
+  nodeRepo: NodeRepository;
+  edgeRepo: EdgeRepository;
+  resultRepo: ResultRepository;
+  mentionRepo: MentionRepository;
+  authorLinker: AuthorLinker;
+  citationLinker: CitationLinker;
+}
+
+/**
+ * Build the graph writers for a database client (typically a transaction's).
+ */
+function graphWriters(db: Sql): GraphWriters {
+  return {
+    paperRepo: new PaperRepository(db),
+    nodeRepo: new NodeRepository(db),
+    edgeRepo: new EdgeRepository(db),
+    resultRepo: new ResultRepository(db),
+    mentionRepo: new MentionRepository(db),
+    authorLinker: new AuthorLinker(db),
+    citationLinker: new CitationLinker(db),
+  };
+}
+
 export class IngestionPipeline {
   private paperRepo: PaperRepository;
   private nodeRepo: NodeRepository;
   private edgeRepo: EdgeRepository;
+  private runRepo: RunRepository;
+  private resultRepo: ResultRepository;
   private orchestrator: AgentOrchestrator;
 
   constructor() {
     this.paperRepo = new PaperRepository();
     this.nodeRepo = new NodeRepository();
     this.edgeRepo = new EdgeRepository();
+    this.runRepo = new RunRepository();
+    this.resultRepo = new ResultRepository();
     this.orchestrator = new AgentOrchestrator();
   }
 
   /**
    * Ingest a single paper into the knowledge graph.
    * This includes creating the paper record, extracting entities and relationships,
-   * storing them in the graph, and updating the paper status.
+   * storing them in the graph, and updating the paper status. The graph writes
+   * and the `completed` status are committed together or not at all.
    * 
    * @param paperData Paper details including title, abstract, full text, authors, etc.
+   * @param options Run attribution and usage tracking passed to the orchestrator
    * @returns The stored paper and analysis results
    */
   async ingestPaper(paperData: {
@@ -42,7 +96,7 @@ export class IngestionPipeline {
     publication_date?: Date;
     venue?: string;
     pdf_url?: string;
-  }): Promise<{ paper: Paper; analysis: PaperAnalysis }> {
+  }, options: ProcessPaperOptions = {}): Promise<{ paper: Paper; analysis: PaperAnalysis }> {
     console.log(`Ingesting paper: ${paperData.title}`);
 
     // Step 1: Create the paper record in the database
@@ -52,25 +106,10 @@ export class IngestionPipeline {
 
     try {
       // Step 2: Process the paper through the agent orchestrator
-      const analysis = await this.orchestrator.processPaper(paper, paperData.full_text);
-
-      // Step 3: Store extracted entities as nodes in the knowledge graph
-      console.log('Storing entities in graph...');
-      const entityMap = await this.nodeRepo.upsertEntities(analysis.entities, 'EntityExtractor');
-      console.log(`Stored ${entityMap.size} unique entities`);
+      const analysis = await this.orchestrator.processPaper(paper, paperData.full_text, options);
 
-      // Step 4: Store extracted relationships as edges in the knowledge graph
-      console.log('Storing relationships in graph...');
-      const edgeCount = await this.edgeRepo.createRelationships(
-        analysis.relationships,
-        paper.id,
-        entityMap,
-        'RelationshipExtractor'
-      );
-      console.log(`Stored ${edgeCount} relationships`);
-
-      // Step 5: Mark paper ingestion as completed
-      await this.paperRepo.updateStatus(paper.id, 'completed');
+      // Step 3: Store the subgraph and mark the paper completed, in one transaction
+      await this.storeAnalysis(paper, paperData.full_text, paperData.authors, analysis);
       console.log('Successfully ingested paper');
 
       return { paper, analysis };
@@ -84,9 +123,12 @@ export class IngestionPipeline {
   /**
    * Ingest multiple papers in batches.
    * Handles batch processing with optional delay between batches to avoid rate limits.
+   * Records the run, including ontology violation counts, in `ingestion_runs` and stops scheduling new batches once the
+   * estimated LLM spend reaches `config.budget.maxCostUsd` (0 = no cap).
    * 
    * @param papers Array of paper data objects
    * @param batchSize Number of papers to ingest per batch (default 3)
+   * @param options Checkpoint use and the stage to re-run, passed to the orchestrator
    */
   async ingestPapers(
     papers: Array<{
@@ -100,51 +142,135 @@ export class IngestionPipeline {
       venue?: string;
       pdf_url?: string;
     }>,
-    batchSize: number = 3
+    batchSize: number = 3,
+    options: Pick<ProcessPaperOptions, 'checkpoints' | 'fromStage'> = {}
   ): Promise<void> {
     console.log(`Starting batch ingestion of ${papers.length} papers`);
     console.log(`Batch size: ${batchSize}`);
 
+    const budgetUsd = config.budget.maxCostUsd > 0 ? config.budget.maxCostUsd : undefined;
+    if (budgetUsd !== undefined) {
+      console.log(`LLM budget: $${budgetUsd.toFixed(2)}`);
+    }
+
+    const run = await this.runRepo.create(papers.length, budgetUsd);
+    const usageTracker = new UsageTracker();
+
     let successCount = 0;
     let failCount = 0;
+    let skippedCount = 0;
+    let budgetExceeded = false;
+    let ontologyViolations = emptyViolationCounts();
 
-    for (let i = 0; i < papers.length; i += batchSize) {
-      const batch = papers.slice(i, i + batchSize);
-      const batchNum = Math.floor(i / batchSize) + 1;
-      const totalBatches = Math.ceil(papers.length / batchSize);
+    const progress = () => ({
+      succeeded: successCount,
+      failed: failCount,
+      skipped: skippedCount,
+      usage: usageTracker.total,
+      ontologyViolations,
+    });
 
-      console.log(`Processing batch ${batchNum} of ${totalBatches}`);
+    try {
+      for (let i = 0; i < papers.length; i += batchSize) {
+        // Stop scheduling once the budget is spent; papers already in flight finish
+        if (budgetUsd !== undefined && usageTracker.total.cost_usd >= budgetUsd) {
+          budgetExceeded = true;
+          skippedCount = papers.length - i;
+          console.warn(
+            `LLM budget reached ($${usageTracker.total.cost_usd.toFixed(4)} of $${budgetUsd.toFixed(2)}); ` +
+            `skipping remaining ${skippedCount} paper(s)`
+          );
+          break;
+        }
 
-      const results = await Promise.allSettled(batch.map((paperData) => this.ingestPaper(paperData)));
+        const batch = papers.slice(i, i + batchSize);
+        const batchNum = Math.floor(i / batchSize) + 1;
+        const totalBatches = Math.ceil(papers.length / batchSize);
 
-      for (const result of results) {
-        if (result.status === 'fulfilled') {
-          successCount++;
-        } else {
-          failCount++;
-          console.error('Batch item failed:', result.reason);
+        console.log(`Processing batch ${batchNum} of ${totalBatches}`);
+
+        const results = await Promise.allSettled(
+          batch.map((paperData) => this.ingestPaper(paperData, { ...options, runId: run.id, usageTracker }))
+        );
+
+        for (const result of results) {
+          if (result.status === 'fulfilled') {
+            successCount++;
+            if (result.value.analysis.ontology) {
+              ontologyViolations = addViolationCounts(ontologyViolations, result.value.analysis.ontology);
+            }
+          } else {
+            failCount++;
+            console.error('Batch item failed:', result.reason);
+          }
+        }
+
+        await this.runRepo.updateProgress(run.id, progress());
+
+        // Optional delay between batches
+        if (i + batchSize < papers.length) {
+          console.log('Waiting before processing next batch...');
+          await new Promise((resolve) => setTimeout(resolve, 2000));
         }
       }
+    } catch (error) {
+      await this.runRepo.finish(run.id, 'failed', progress());
+      throw error;
+    }
+
+    await this.runRepo.finish(run.id, budgetExceeded ? 'budget_exceeded' : 'completed', progress());
 
-      // Optional delay between batches
-      if (i + batchSize < papers.length) {
-        console.log('Waiting before processing next batch...');
-        await new Promise((resolve) => setTimeout(resolve, 2000));
+    // Citation counts and concept stats are materialized views; the papers are
+    // already stored, so a failed refresh is only logged
+    if (successCount > 0) {
+      try {
+        await this.paperRepo.refreshStats();
+      } catch (error) {
+        console.warn('Failed to refresh graph statistics:', error);
       }
     }
 
+    const usage = usageTracker.total;
     console.log('Batch ingestion complete');
     console.log(`Success: ${successCount}`);
     console.log(`Failed: ${failCount}`);
+    if (skippedCount > 0) {
+      console.log(`Skipped (budget): ${skippedCount}`);
+    }
+    console.log(
+      `LLM usage: ${usage.calls} call(s), ${usage.input_tokens} input / ${usage.output_tokens} output tokens, ` +
+      `~$${usage.cost_usd.toFixed(4)}`
+    );
+
+    console.log(
+      `Ontology violations: ${ontologyViolations.flipped} flipped, ${ontologyViolations.retyped} retyped, ` +
+      `${ontologyViolations.rejected} rejected`
+    );
+
+    const cache = getResponseCache();
+    if (cache.enabled) {
+      const { hits, misses } = cache.stats;
+      console.log(`LLM cache: ${hits} hit(s), ${misses} miss(es)`);
+    }
   }
 
   /**
    * Reprocess an existing paper.
-   * Useful if extraction algorithms are updated or improved.
+   * Useful if extraction algorithms are updated or improved. Stages whose
+   * checkpoints are still valid are restored rather than re-run; pass
+   * `fromStage` to force a stage (e.g. after editing its prompt).
+   * Entities and relationships the new run no longer produces are retracted,
+   * and the added, removed and changed assertions are written as a report to
+   * `config.reprocessing.reportDir`.
    * 
    * @param paperId ID of the paper to reprocess
+   * @param options Checkpoint use and the stage to re-run, passed to the orchestrator
+   * @returns The report of added, removed and changed assertions
    */
-  async reprocessPaper(paperId: string): Promise<void> {
+  async reprocessPaper(
+    paperId: string,
+    options: Pick<ProcessPaperOptions, 'checkpoints' | 'fromStage'> = {}
+  ): Promise<ReprocessingReport> {
     const paper = await this.paperRepo.findById(paperId);
     if (!paper) {
       throw new Error(`Paper not found: ${paperId}`);
@@ -156,41 +282,201 @@ export class IngestionPipeline {
     console.log(`Reprocessing paper: ${paper.title}`);
     await this.paperRepo.updateStatus(paper.id, 'processing');
 
+    let report: ReprocessingReport;
     try {
       // Process paper again through orchestrator
-      const analysis = await this.orchestrator.processPaper(paper, paper.full_text);
-
-      // Store updated entities and relationships
-      const entityMap = await this.nodeRepo.upsertEntities(analysis.entities);
-      await this.edgeRepo.createRelationships(analysis.relationships, paper.id, entityMap);
+      const analysis = await this.orchestrator.processPaper(paper, paper.full_text, options);
 
-      await this.paperRepo.updateStatus(paper.id, 'completed');
-      console.log('Reprocessing complete');
+      // Store updated entities and relationships, retract stale ones and mark the paper completed, in one transaction
+      report = await this.storeAnalysis(paper, paper.full_text, paper.authors, analysis);
+      const ontology = analysis.ontology ?? emptyViolationCounts();
+      console.log(`Ontology violations: ${ontology.flipped} flipped, ${ontology.retyped} retyped, ${ontology.rejected} rejected`);
     } catch (error) {
       await this.paperRepo.updateStatus(paper.id, 'failed');
       throw error;
     }
+
+    // Citation counts and concept stats are materialized views; the paper is
+    // already stored, so a failed refresh is only logged
+    try {
+      await this.paperRepo.refreshStats();
+    } catch (error) {
+      console.warn('Failed to refresh graph statistics:', error);
+    }
+    console.log('Reprocessing complete');
+
+    console.log(`Entities: ${summarizeDiff(report.nodes)}, relationships: ${summarizeDiff(report.edges)}`);
+    await this.writeReprocessingReport(report);
+    return report;
+  }
+
+  /**
+   * Write a reprocessing report as `<paper id>-<timestamp>.json` and `.md`.
+   * The paper is already stored, so a write failure is only logged.
+   */
+  private async writeReprocessingReport(report: ReprocessingReport): Promise<void> {
+    const { reportDir } = config.reprocessing;
+    const name = `${report.paper_id}-${report.generated_at.replace(/[:.]/g, '-')}`;
+    try {
+      await mkdir(reportDir, { recursive: true });
+      await writeFile(join(reportDir, `${name}.json`), JSON.stringify(report, null, 2) + '\n');
+      await writeFile(join(reportDir, `${name}.md`), renderReprocessingMarkdown(report));
+      console.log(`Reprocessing report written to ${join(reportDir, `${name}.md`)}`);
+    } catch (error) {
+      console.warn('Failed to write reprocessing report:', error);
+    }
+  }
+
+  /**
+   * Write an analysis to the graph and mark the paper completed, in a single
+   * transaction. Assertions the paper made in an earlier run but not in this
+   * one are retracted in the same transaction; the paper's row is locked
+   * first, so concurrent runs over the same paper write one after the other.
+   * Concurrent papers sharing nodes and edges write them in sorted order; a
+   * deadlock or serialization failure still re-runs the transaction (see
+   * `withTransaction`) before the paper is marked failed.
+   * Adds the violations found while creating edges to `analysis.ontology`
+   * once the transaction commits.
+   *
+   * @param paper The analysed paper
+   * @param fullText Full text, for citation linking
+   * @param authors Author names, for author linking
+   * @param analysis Output of the orchestrator
+   * @returns The paper's assertions compared with its previous run
+   */
+  private async storeAnalysis(
+    paper: Paper,
+    fullText: string,
+    authors: string[],
+    analysis: PaperAnalysis
+  ): Promise<ReprocessingReport> {
+    const paperId = paper.id;
+
+    // A deadlock re-runs the transaction from the start, so nothing outside it changes until it commits
+    const { report, violations } = await withTransaction(async (tx) => {
+      const writers = graphWriters(tx);
+      // Runs over the same paper write one after the other, each retracting what the previous one asserted
+      await writers.paperRepo.lockForUpdate(paperId);
+      const before = await writers.mentionRepo.findAssertionsForPaper(paperId);
+
+      // Store extracted entities as nodes in the knowledge graph
+      console.log('Storing entities in graph...');
+      const entityMap = await writers.nodeRepo.upsertEntities(analysis.entities, 'EntityExtractor', paperId);
+      console.log(`Stored ${entityMap.size} unique entities`);
+
+      // Store extracted relationships as edges, and quantitative results
+      console.log('Storing relationships in graph...');
+      const { created: edgeCount, violations } = await writers.edgeRepo.createRelationships(
+        analysis.relationships,
+        paperId,
+        entityMap,
+        'RelationshipExtractor'
+      );
+      console.log(`Stored ${edgeCount} relationships`);
+      await this.storeResults(writers, paperId, analysis);
+
+      // Link the paper to its authors and the papers it cites
+      await this.linkAuthors(writers, paperId, authors);
+      await this.linkCitations(writers, paperId, fullText);
+
+      // Retract what the previous run asserted and this one did not
+      const retracted = await writers.mentionRepo.retractStale(paperId);
+      if (retracted.edge_mentions + retracted.node_mentions > 0) {
+        console.log(
+          `Retracted ${retracted.node_mentions} entity and ${retracted.edge_mentions} relationship assertion(s) ` +
+          `from the previous run (${retracted.nodes_removed} node(s) and ${retracted.edges_removed} edge(s) removed)`
+        );
+      }
+
+      // Store the paper summary and mark ingestion as completed
+      await this.storeSummary(writers, paperId, analysis);
+      await writers.paperRepo.updateStatus(paperId, 'completed');
+
+      const after = await writers.mentionRepo.findAssertionsForPaper(paperId);
+      const report = buildReprocessingReport(paper, before, after, {
+        edges: retracted.edges_removed,
+        nodes: retracted.nodes_removed,
+      });
+      return { report, violations };
+    });
+
+    analysis.ontology = addViolationCounts(analysis.ontology ?? emptyViolationCounts(), violations);
+    return report;
+  }
+
+  /**
+   * Create author nodes and `authored_by` edges, if author linking is enabled.
+   */
+  private async linkAuthors(writers: GraphWriters, paperId: string, authors: string[]): Promise<void> {
+    if (!config.authors.enabled || authors.length === 0) return;
+
+    const result = await writers.authorLinker.link(paperId, authors);
+    const merged = result.by_method.coauthor_overlap ?? 0;
+    console.log(
+      `Linked ${result.linked} authors` +
+      (merged > 0 ? ` (${merged} merged into existing name variants)` : '')
+    );
+  }
+
+  /**
+   * Create `cites` edges from the paper's reference list, if citation linking is enabled.
+   */
+  private async linkCitations(writers: GraphWriters, paperId: string, fullText: string): Promise<void> {
+    if (!config.citations.enabled) return;
+
+    console.log('Linking references to cited papers...');
+    const result = await writers.citationLinker.link(paperId, fullText);
+    console.log(
+      `Linked ${result.linked} of ${result.references} references` +
+      (result.stubs > 0 ? ` (${result.stubs} to stub papers)` : '')
+    );
+  }
+
+  /**
+   * Replace the paper's quantitative results, if results extraction ran.
+   */
+  private async storeResults(writers: GraphWriters, paperId: string, analysis: PaperAnalysis): Promise<void> {
+    if (!analysis.results) return;
+
+    const resultCount = await writers.resultRepo.replaceForPaper(paperId, analysis.results, 'ResultsExtractor');
+    console.log(`Stored ${resultCount} results`);
+  }
+
+  /**
+   * Persist the summary fields of an analysis on the paper, if summarization ran.
+   */
+  private async storeSummary(writers: GraphWriters, paperId: string, analysis: PaperAnalysis): Promise<void> {
+    if (!analysis.summary) return;
+
+    await writers.paperRepo.updateSummary(paperId, {
+      summary: analysis.summary,
+      key_contributions: analysis.key_contributions ?? [],
+      limitations: analysis.limitations ?? [],
+    });
   }
 
   /**
    * Retrieve basic statistics about the pipeline.
-   * Returns counts of papers, nodes, and edges.
+   * Returns counts of papers, nodes, edges, and results.
    */
   async getStats(): Promise<{
     papers: any;
     nodes: any;
     edges: any;
+    results: any;
   }> {
-    const [paperStats, nodeStats, edgeStats] = await Promise.all([
+    const [paperStats, nodeStats, edgeStats, resultStats] = await Promise.all([
       this.paperRepo.getStats(),
       this.nodeRepo.getStats(),
       this.edgeRepo.getStats(),
+      this.resultRepo.getStats(),
     ]);
 
     return {
       papers: paperStats,
       nodes: nodeStats,
       edges: edgeStats,
+      results: resultStats,
     };
   }
 }
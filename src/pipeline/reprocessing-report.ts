@@ -0,0 +1,183 @@
+/**
+ * Reprocessing Report
+ *
+ * Compares the nodes and edges a paper asserted before reprocessing with the
+ * ones it asserts afterwards, and renders the added, removed and changed
+ * assertions as markdown, so the effect of a prompt or model change on one
+ * paper can be reviewed.
+ */
+
+import type { PaperAssertion } from '../types/index.js';
+
+// Confidence differences below this are not reported as changes
+const CONFIDENCE_TOLERANCE = 0.005;
+
+/**
+ * A paper's node and edge assertions at one point in time.
+ */
+export interface AssertionSnapshot {
+  nodes: PaperAssertion[];
+  edges: PaperAssertion[];
+}
+
+/**
+ * An assertion made before and after reprocessing, with what differs.
+ */
+export interface ChangedAssertion {
+  label: string;
+  changes: string[];             // e.g. "confidence 0.80 → 0.65", "prompt v1 → v2"
+}
+
+/**
+ * Differences in one kind of assertion (nodes or edges).
+ */
+export interface AssertionDiff {
+  added: string[];
+  removed: string[];
+  changed: ChangedAssertion[];
+  unchanged: number;
+}
+
+/**
+ * Outcome of reprocessing one paper.
+ */
+export interface ReprocessingReport {
+  paper_id: string;
+  title: string;
+  generated_at: string;
+  nodes: AssertionDiff;
+  edges: AssertionDiff;
+  retracted: {                   // Graph rows deleted because no paper asserts them any more
+    edges: number;
+    nodes: number;
+  };
+}
+
+/**
+ * Describe how an assertion differs between two runs.
+ */
+function describeChanges(before: PaperAssertion, after: PaperAssertion): string[] {
+  const changes: string[] = [];
+  if (Math.abs(before.confidence - after.confidence) >= CONFIDENCE_TOLERANCE) {
+    changes.push(`confidence ${before.confidence.toFixed(2)} → ${after.confidence.toFixed(2)}`);
+  }
+  if ((before.evidence ?? '') !== (after.evidence ?? '')) {
+    changes.push('evidence changed');
+  }
+  if (before.prompt_version !== after.prompt_version) {
+    changes.push(`prompt ${before.prompt_version ?? 'unknown'} → ${after.prompt_version ?? 'unknown'}`);
+  }
+  if (before.model !== after.model) {
+    changes.push(`model ${before.model ?? 'unknown'} → ${after.model ?? 'unknown'}`);
+  }
+  return changes;
+}
+
+/**
+ * Compare two lists of assertions by node or edge ID.
+ *
+ * @param before - Assertions of the previous run
+ * @param after - Assertions of the new run
+ * @returns Added, removed and changed assertions, by label
+ */
+export function diffAssertions(before: PaperAssertion[], after: PaperAssertion[]): AssertionDiff {
+  const previous = new Map(before.map((assertion) => [assertion.id, assertion]));
+  const current = new Map(after.map((assertion) => [assertion.id, assertion]));
+  const diff: AssertionDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+
+  for (const assertion of after) {
+    const old = previous.get(assertion.id);
+    if (!old) {
+      diff.added.push(assertion.label);
+      continue;
+    }
+    const changes = describeChanges(old, assertion);
+    if (changes.length > 0) {
+      diff.changed.push({ label: assertion.label, changes });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  for (const assertion of before) {
+    if (!current.has(assertion.id)) {
+      diff.removed.push(assertion.label);
+    }
+  }
+
+  diff.added.sort();
+  diff.removed.sort();
+  diff.changed.sort((a, b) => a.label.localeCompare(b.label));
+  return diff;
+}
+
+/**
+ * Build the report of one reprocessed paper.
+ *
+ * @param paper - Reprocessed paper
+ * @param before - Assertions before reprocessing
+ * @param after - Assertions after reprocessing
+ * @param retracted - Edges and nodes deleted from the graph
+ * @returns The report
+ */
+export function buildReprocessingReport(
+  paper: { id: string; title: string },
+  before: AssertionSnapshot,
+  after: AssertionSnapshot,
+  retracted: { edges: number; nodes: number }
+): ReprocessingReport {
+  return {
+    paper_id: paper.id,
+    title: paper.title,
+    generated_at: new Date().toISOString(),
+    nodes: diffAssertions(before.nodes, after.nodes),
+    edges: diffAssertions(before.edges, after.edges),
+    retracted,
+  };
+}
+
+/**
+ * One-line summary of a diff, e.g. "+3 -1 ~2".
+ */
+export function summarizeDiff(diff: AssertionDiff): string {
+  return `+${diff.added.length} -${diff.removed.length} ~${diff.changed.length}`;
+}
+
+/**
+ * Render a report as markdown.
+ *
+ * @param report - Reprocessing report
+ * @returns Markdown summary
+ */
+export function renderReprocessingMarkdown(report: ReprocessingReport): string {
+  const lines: string[] = [
+    `# Reprocessing: ${report.title}`,
+    '',
+    `- Paper: ${report.paper_id}`,
+    `- Generated: ${report.generated_at}`,
+    `- Entities: ${summarizeDiff(report.nodes)} (${report.nodes.unchanged} unchanged)`,
+    `- Relationships: ${summarizeDiff(report.edges)} (${report.edges.unchanged} unchanged)`,
+    `- Retracted from the graph: ${report.retracted.edges} edge(s), ${report.retracted.nodes} node(s) no other paper supports`,
+  ];
+
+  const sections: Array<[string, AssertionDiff]> = [
+    ['Entities', report.nodes],
+    ['Relationships', report.edges],
+  ];
+  for (const [heading, diff] of sections) {
+    if (diff.added.length + diff.removed.length + diff.changed.length === 0) continue;
+
+    lines.push('', `## ${heading}`);
+    if (diff.added.length > 0) {
+      lines.push('', 'Added:', '', ...diff.added.map((label) => `- ${label}`));
+    }
+    if (diff.removed.length > 0) {
+      lines.push('', 'Removed:', '', ...diff.removed.map((label) => `- ${label}`));
+    }
+    if (diff.changed.length > 0) {
+      lines.push('', 'Changed:', '', ...diff.changed.map(({ label, changes }) => `- ${label}: ${changes.join(', ')}`));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,77 @@
+/**
+ * Prompt Templates
+ *
+ * Loads versioned prompt templates from disk and renders their variables.
+ * Each agent has a directory per version:
+ *
+ *   src/prompts/<agent>/<version>/system.md
+ *   src/prompts/<agent>/<version>/user.md
+ *
+ * Templates use `{{variable}}` placeholders. The version selected in
+ * `config.agents.*.promptVersion` is stamped on every node, edge and
+ * extraction log the agent produces.
+ */
+
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+/**
+ * A loaded system/user template pair.
+ */
+export interface PromptTemplate {
+  agent: string;    // Template directory, e.g. 'entity-extraction'
+  version: string;  // Version directory, e.g. 'v1'
+  system: string;
+  user: string;
+}
+
+const promptsDir = dirname(fileURLToPath(import.meta.url));
+const loaded = new Map<string, PromptTemplate>();
+
+/**
+ * Load (and memoize) the templates for an agent version.
+ *
+ * @param agent - Template directory name
+ * @param version - Version directory name
+ * @returns The template pair
+ */
+export function loadPromptTemplate(agent: string, version: string): PromptTemplate {
+  const id = `${agent}/${version}`;
+  const cached = loaded.get(id);
+  if (cached) return cached;
+
+  const dir = join(promptsDir, agent, version);
+  let template: PromptTemplate;
+
+  try {
+    template = {
+      agent,
+      version,
+      system: readFileSync(join(dir, 'system.md'), 'utf-8').replace(/\n$/, ''),
+      user: readFileSync(join(dir, 'user.md'), 'utf-8').replace(/\n$/, ''),
+    };
+  } catch (error) {
+    throw new Error(`Prompt template ${id} not found in ${dir}: ${error}`);
+  }
+
+  loaded.set(id, template);
+  return template;
+}
+
+/**
+ * Substitute `{{name}}` placeholders.
+ * Throws if the template references a variable that was not provided.
+ *
+ * @param template - Template text
+ * @param variables - Values by placeholder name
+ * @returns Rendered text
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Missing prompt variable: ${name}`);
+    }
+    return variables[name];
+  });
+}
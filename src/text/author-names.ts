@@ -0,0 +1,85 @@
+/**
+ * Author name parsing
+ *
+ * Splits author names as they appear in paper metadata ("George Drettakis",
+ * "G. Drettakis", "Drettakis, George") into given names and surname, and
+ * derives a match key (surname plus first initial) under which spelling
+ * variants of the same person meet. Whether two variants really are the same
+ * person is decided by the caller, e.g. from co-author overlap.
+ */
+
+/**
+ * An author name split into its parts.
+ */
+export interface AuthorName {
+  full: string;       // Name as displayed, "Given Names Surname"
+  given: string[];    // Lowercased given names or initials, without dots
+  surname: string;    // Lowercased surname without diacritics
+  key: string;        // "surname f", shared by variants of the same name
+}
+
+// Generational suffixes dropped before parsing
+const SUFFIX = /^(jr|sr|ii|iii|iv)\.?$/i;
+
+/**
+ * Lowercase and strip diacritics, so "Leimkühler" and "Leimkuhler" agree.
+ */
+function fold(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Parse an author name.
+ *
+ * @param name - Name as written, in "Given Surname" or "Surname, Given" order
+ * @returns Parsed name, or null if no surname can be found
+ */
+export function parseAuthorName(name: string): AuthorName | null {
+  let ordered = name.replace(/\s+/g, ' ').trim();
+
+  // "Drettakis, George" -> "George Drettakis" (but keep "George Drettakis, Jr.")
+  const comma = ordered.split(/\s*,\s*/);
+  if (comma.length === 2 && !SUFFIX.test(comma[1]) && comma[1].length > 0) {
+    ordered = `${comma[1]} ${comma[0]}`;
+  }
+
+  const tokens = ordered
+    .replace(/,/g, ' ')
+    .split(/\s+|(?<=\.)(?=\p{L})/u)
+    .filter((token) => token.length > 0 && !SUFFIX.test(token));
+  if (tokens.length === 0) return null;
+
+  const surname = fold(tokens[tokens.length - 1]).replace(/\.$/, '');
+  if (surname.length < 2) return null;
+
+  const given = tokens.slice(0, -1).map((token) => fold(token).replace(/\.$/, ''));
+
+  return {
+    full: tokens.join(' '),
+    given,
+    surname,
+    key: given.length > 0 ? `${surname} ${given[0][0]}` : surname,
+  };
+}
+
+/**
+ * Whether two parsed names can refer to the same person: same surname, and
+ * each pair of given names agrees either fully or as an initial
+ * ("G" ~ "George", "George" !~ "Gerald").
+ */
+export function namesCompatible(a: AuthorName, b: AuthorName): boolean {
+  if (a.surname !== b.surname) return false;
+
+  const count = Math.min(a.given.length, b.given.length);
+  for (let i = 0; i < count; i++) {
+    const x = a.given[i];
+    const y = b.given[i];
+    const agrees = x.length === 1 || y.length === 1 ? x[0] === y[0] : x === y;
+    if (!agrees) return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,183 @@
+/**
+ * Evidence grounding
+ *
+ * Locates quotes returned by the extractors (relationship evidence, entity
+ * context) in the paper's full text. Both sides are normalized (case,
+ * punctuation and whitespace are ignored) and matched exactly when possible,
+ * otherwise by aligning word trigrams and scoring the best window by word
+ * overlap. Matches are reported as character offsets into the original text.
+ */
+
+/**
+ * Where a quote was found in the full text.
+ */
+export interface EvidenceMatch {
+  start: number;    // Offset of the first matched character
+  end: number;      // Offset just past the last matched character
+  score: number;    // 1 for an exact (normalized) match, else word overlap in [0, 1)
+}
+
+/**
+ * Text normalized to lowercase words separated by single spaces, with each
+ * word's offsets in the original text.
+ */
+interface NormalizedText {
+  words: string[];
+  starts: number[];   // Original offset of each word
+  ends: number[];     // Original offset just past each word
+}
+
+// Quotes shorter than this (in words) are only matched exactly
+const MIN_FUZZY_WORDS = 4;
+// Candidate windows examined per quote
+const MAX_CANDIDATES = 5;
+
+/**
+ * Split text into normalized words, remembering their original offsets.
+ */
+function normalize(text: string): NormalizedText {
+  const words: string[] = [];
+  const starts: number[] = [];
+  const ends: number[] = [];
+
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    words.push(match[0].toLowerCase());
+    starts.push(match.index!);
+    ends.push(match.index! + match[0].length);
+  }
+
+  return { words, starts, ends };
+}
+
+/**
+ * Dice coefficient between two word multisets.
+ */
+function wordOverlap(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const word of a) counts.set(word, (counts.get(word) ?? 0) + 1);
+
+  let common = 0;
+  for (const word of b) {
+    const count = counts.get(word) ?? 0;
+    if (count > 0) {
+      common++;
+      counts.set(word, count - 1);
+    }
+  }
+
+  return (2 * common) / (a.length + b.length);
+}
+
+/**
+ * Aligns quotes against one document. Build once per paper and reuse.
+ */
+export class EvidenceAligner {
+  private doc: NormalizedText;
+  private trigrams = new Map<string, number[]>();
+
+  constructor(text: string) {
+    this.doc = normalize(text);
+
+    const { words } = this.doc;
+    for (let i = 0; i + 2 < words.length; i++) {
+      const key = `${words[i]} ${words[i + 1]} ${words[i + 2]}`;
+      const positions = this.trigrams.get(key);
+      if (positions) {
+        positions.push(i);
+      } else {
+        this.trigrams.set(key, [i]);
+      }
+    }
+  }
+
+  /**
+   * Locate a quote in the document.
+   *
+   * @param quote - Evidence or context string from the LLM
+   * @returns Best match, or null if the quote has no words or no overlap at all
+   */
+  align(quote: string): EvidenceMatch | null {
+    const query = normalize(quote).words;
+    if (query.length === 0) return null;
+
+    const exact = this.findExact(query);
+    if (exact !== null) {
+      return this.toMatch(exact, exact + query.length - 1, 1);
+    }
+
+    if (query.length < MIN_FUZZY_WORDS) return null;
+    return this.findFuzzy(query);
+  }
+
+  /**
+   * Word index where the query occurs verbatim, or null.
+   */
+  private findExact(query: string[]): number | null {
+    const { words } = this.doc;
+    const candidates = query.length >= 3
+      ? this.trigrams.get(`${query[0]} ${query[1]} ${query[2]}`) ?? []
+      : words.flatMap((word, i) => (word === query[0] ? [i] : []));
+
+    for (const start of candidates) {
+      if (query.every((word, k) => words[start + k] === word)) {
+        return start;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Best fuzzy window: candidate starts are voted for by shared trigrams,
+   * each window is trimmed to its first and last shared word and scored
+   * by word overlap with the query.
+   */
+  private findFuzzy(query: string[]): EvidenceMatch | null {
+    const { words } = this.doc;
+    const votes = new Map<number, number>();
+
+    for (let k = 0; k + 2 < query.length; k++) {
+      for (const position of this.trigrams.get(`${query[k]} ${query[k + 1]} ${query[k + 2]}`) ?? []) {
+        const start = Math.max(0, position - k);
+        votes.set(start, (votes.get(start) ?? 0) + 1);
+      }
+    }
+
+    const candidates = Array.from(votes.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_CANDIDATES)
+      .map(([start]) => start);
+
+    const querySet = new Set(query);
+    let best: EvidenceMatch | null = null;
+
+    for (const candidate of candidates) {
+      // Allow the source to be somewhat longer than the paraphrase
+      const windowEnd = Math.min(words.length, candidate + Math.ceil(query.length * 1.25));
+      let first = candidate;
+      let last = windowEnd - 1;
+      while (first < last && !querySet.has(words[first])) first++;
+      while (last > first && !querySet.has(words[last])) last--;
+
+      const score = wordOverlap(query, words.slice(first, last + 1));
+      if (!best || score > best.score) {
+        best = this.toMatch(first, last, Math.min(score, 0.99));
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Convert a word range to character offsets.
+   */
+  private toMatch(firstWord: number, lastWord: number, score: number): EvidenceMatch {
+    return {
+      start: this.doc.starts[firstWord],
+      end: this.doc.ends[lastWord],
+      score: Math.round(score * 1000) / 1000,
+    };
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Reference parsing
+ *
+ * Finds the References (or Bibliography) section of a paper's full text,
+ * splits it into individual entries and pulls out what can be read
+ * deterministically from each one: arXiv ID, DOI, publication year and a
+ * best-effort title. Entries are recognized by "[12]" markers, "12." line
+ * numbers, or, failing both, blank lines or single lines. All positions are
+ * character offsets into the original text.
+ */
+
+import { detectSections } from './sections.js';
+
+/**
+ * One entry of a paper's reference list.
+ */
+export interface ParsedReference {
+  index: number;        // Position in the reference list (0-based)
+  raw: string;          // Entry text with line breaks and hyphenation undone
+  start: number;        // Offset of the entry in the full text
+  end: number;
+  title?: string;
+  year?: number;
+  arxiv_id?: string;    // Without version suffix, e.g. "2003.08934"
+  doi?: string;         // Lowercased, e.g. "10.1145/3528223.3530127"
+}
+
+const REFERENCE_HEADING = /^(references|bibliography)$/i;
+
+// "[12] ..." at the start of a line
+const BRACKET_MARKER = /^[ \t]*\[(\d{1,3})\][ \t]*/gm;
+// "12. ..." at the start of a line
+const NUMBER_MARKER = /^[ \t]*(\d{1,3})\.[ \t]+/gm;
+
+const ARXIV_NEW = /arxiv(?:\.org\/(?:abs|pdf)\/|\s*(?:preprint\s*)?(?:arxiv)?:?\s*)(\d{4}\.\d{4,5})(?:v\d+)?/i;
+const ARXIV_OLD = /arxiv(?:\.org\/(?:abs|pdf)\/|:\s*)([a-z-]+(?:\.[a-z]{2})?\/\d{7})(?:v\d+)?/i;
+const DOI = /\b(10\.\d{4,9}\/[^\s"<>]+)/i;
+const YEAR = /\b(19[5-9]\d|20\d{2})[a-z]?\b/;
+const QUOTED_TITLE = /["“”]([^"“”]{10,}?)[,.]?["“”]/;
+
+// Springer style "Smith, J., Doe, A.: Title" — authors end with an initial and a colon
+const COLON_AUTHORS = /^(?:.+?\b[A-Z]\.|.+?\bet al\.?):\s+/;
+
+// After an initial, text that still belongs to the author list: another
+// initial, or a surname followed by a comma, "and", "&" or nothing
+const NAME_CONTINUATION = /^(?:\p{Lu}\b|\p{Lu}[\p{L}'-]+(?:,|\s+and\b|\s*&|$))/u;
+
+const MIN_TITLE_CHARS = 10;
+
+/**
+ * Locate the reference list: the body of the last References or
+ * Bibliography section, without its heading line.
+ *
+ * @param text - Full paper text
+ * @returns Offsets of the reference list, or null if the paper has none
+ */
+export function findReferenceSection(text: string): { start: number; end: number } | null {
+  const section = detectSections(text)
+    .filter((s) => REFERENCE_HEADING.test(s.title))
+    .pop();
+  if (!section) return null;
+
+  const headingEnd = text.indexOf('\n', section.start);
+  const start = headingEnd >= 0 && headingEnd < section.end ? headingEnd + 1 : section.end;
+  return start < section.end ? { start, end: section.end } : null;
+}
+
+/**
+ * Parse the reference list of a paper.
+ *
+ * @param text - Full paper text
+ * @returns References in list order; empty if no reference section is found
+ */
+export function parseReferences(text: string): ParsedReference[] {
+  const section = findReferenceSection(text);
+  if (!section) return [];
+
+  return splitEntries(text, section.start, section.end)
+    .map(([start, end]) => ({ start, end, raw: cleanEntry(text.slice(start, end)) }))
+    .filter((entry) => entry.raw.length >= MIN_TITLE_CHARS)
+    .map((entry, index) => ({ index, ...entry, ...parseEntry(entry.raw) }));
+}
+
+/**
+ * Split [start, end) into entry ranges using the first scheme that finds
+ * at least two entries.
+ */
+function splitEntries(text: string, start: number, end: number): Array<[number, number]> {
+  const body = text.slice(start, end);
+
+  for (const marker of [BRACKET_MARKER, NUMBER_MARKER]) {
+    const positions = markerPositions(body, marker);
+    if (positions.length >= 2) {
+      return positions.map((position, i) => [
+        start + position,
+        i + 1 < positions.length ? start + positions[i + 1] : end,
+      ]);
+    }
+  }
+
+  // Blank-line separated paragraphs, else one entry per line
+  const separator = /\n[ \t]*\n/.test(body) ? /\n[ \t]*\n/g : /\n/g;
+  const ranges: Array<[number, number]> = [];
+  let position = 0;
+  for (const match of body.matchAll(separator)) {
+    ranges.push([start + position, start + match.index!]);
+    position = match.index! + match[0].length;
+  }
+  ranges.push([start + position, end]);
+
+  return ranges.filter(([s, e]) => text.slice(s, e).trim().length > 0);
+}
+
+/**
+ * Offsets of list markers whose numbers count up from 1, so that stray
+ * numbers inside entries ("Vol. 12.") are not taken for markers.
+ */
+function markerPositions(body: string, marker: RegExp): number[] {
+  const positions: number[] = [];
+  let expected = 1;
+
+  for (const match of body.matchAll(marker)) {
+    if (Number(match[1]) === expected) {
+      positions.push(match.index!);
+      expected++;
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Strip the list marker, undo hyphenation across line breaks and collapse whitespace.
+ */
+function cleanEntry(entry: string): string {
+  return entry
+    .replace(/^\s*(?:\[\d{1,3}\]|\d{1,3}\.)\s*/, '')
+    .replace(/(\w)-\n\s*(\w)/g, '$1$2')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Read identifiers, year and title from one cleaned entry.
+ */
+function parseEntry(raw: string): Pick<ParsedReference, 'title' | 'year' | 'arxiv_id' | 'doi'> {
+  const arxiv_id = (ARXIV_NEW.exec(raw) ?? ARXIV_OLD.exec(raw))?.[1];
+  const doi = DOI.exec(raw)?.[1].replace(/[.,;)\]]+$/, '').toLowerCase();
+
+  // Identifiers look like years ("2003.08934"), so remove them before looking
+  const withoutIds = raw
+    .replace(ARXIV_NEW, ' ')
+    .replace(ARXIV_OLD, ' ')
+    .replace(DOI, ' ')
+    .replace(/https?:\/\/\S+/g, ' ');
+  const yearMatch = YEAR.exec(withoutIds);
+
+  return {
+    title: extractTitle(withoutIds),
+    year: yearMatch ? Number(yearMatch[1]) : undefined,
+    arxiv_id,
+    doi,
+  };
+}
+
+/**
+ * Best-effort title: a quoted title (IEEE style) if present, otherwise the
+ * first sentence after the author list that is not a bare year.
+ */
+function extractTitle(raw: string): string | undefined {
+  const quoted = QUOTED_TITLE.exec(raw);
+  if (quoted) {
+    return tidyTitle(quoted[1]);
+  }
+
+  let rest = raw;
+  let authorsSkipped = false;
+  const colonAuthors = COLON_AUTHORS.exec(rest);
+  if (colonAuthors) {
+    rest = rest.slice(colonAuthors[0].length);
+    authorsSkipped = true;
+  }
+
+  const segments = splitSentences(rest)
+    .filter((segment) => !/^\(?(19|20)\d{2}[a-z]?\)?\.?$/.test(segment));
+
+  const candidates = authorsSkipped || segments.length === 1 ? segments : segments.slice(1);
+  const title = candidates.find((segment) => segment.split(/\s+/).length >= 2);
+  return title ? tidyTitle(title) : undefined;
+}
+
+/**
+ * Split at ". ", keeping initials attached to the names around them:
+ * "P. P. Srinivasan, M. Tancik" stays whole, while "Shazeer N. Attention
+ * is all you need" splits after the initial.
+ */
+function splitSentences(text: string): string[] {
+  const segments: string[] = [];
+
+  for (const piece of text.split(/\.\s+/)) {
+    const previous = segments[segments.length - 1];
+    if (previous !== undefined && /\b\p{Lu}$/u.test(previous) && NAME_CONTINUATION.test(piece)) {
+      segments[segments.length - 1] = `${previous}. ${piece}`;
+    } else {
+      segments.push(piece);
+    }
+  }
+
+  return segments.map((segment) => segment.trim());
+}
+
+function tidyTitle(title: string): string | undefined {
+  const tidy = title
+    .replace(/^(?:\(?(19|20)\d{2}[a-z]?\)?[.,]?\s+)/, '')
+    .replace(/^In:?\s+/, '')
+    .replace(/[\s.,;:]+$/, '')
+    .trim();
+  return tidy.length >= MIN_TITLE_CHARS ? tidy : undefined;
+}
@@ -0,0 +1,225 @@
+/**
+ * Section detection and chunking
+ *
+ * Splits paper full text into sections by recognizing heading lines
+ * (numbered headings such as "3.2 Densification", Roman numerals such as
+ * "IV. EXPERIMENTS", and the usual unnumbered names such as "Abstract" or
+ * "Related Work"), then packs the sections into chunks small enough for a
+ * single extraction call. Sections longer than a chunk are split at
+ * paragraph or sentence boundaries with a small overlap. All positions are
+ * character offsets into the original text.
+ */
+
+/**
+ * A detected section of a paper.
+ */
+export interface TextSection {
+  title: string;    // Heading text without numbering, e.g. "Related Work"
+  start: number;    // Offset of the heading line
+  end: number;      // Offset where the next section starts
+}
+
+/**
+ * A piece of text sent to one extraction call.
+ */
+export interface TextChunk {
+  index: number;        // Position of the chunk in the paper
+  sections: string[];   // Titles of the sections the chunk covers
+  start: number;        // Offset into the full text
+  end: number;
+  text: string;
+}
+
+/**
+ * Options for chunkText.
+ */
+export interface ChunkOptions {
+  maxChars: number;             // Upper bound on chunk length
+  overlapChars: number;         // Text repeated between pieces of a split section
+  excludeSections?: RegExp;     // Sections to leave out entirely (matched against the title)
+}
+
+// Unnumbered headings we recognize by name
+const KNOWN_HEADING = new RegExp(
+  '^(abstract|introduction|background|related work|prior work|preliminar(y|ies)|' +
+  'method(s|ology)?|approach|our (method|approach)|overview|implementation( details)?|' +
+  'experiments?( (setup|results))?|experimental (setup|results|evaluation)|evaluation|' +
+  'results( and discussion)?|ablations?( stud(y|ies))?|discussion|' +
+  'limitations?( and future work)?|future work|conclusions?( and future work)?|' +
+  'acknowledge?ments?|references|bibliography|appendix|supplementary( material)?)$',
+  'i'
+);
+
+// "3 Method", "3.2. Densification", "IV. EXPERIMENTS"
+const NUMBERED_HEADING = /^(?:\d{1,2}(?:\.\d{1,2}){0,2}\.?|[IVX]{1,5}\.)\s+(\S.*)$/;
+
+const MAX_HEADING_LENGTH = 80;
+const MAX_HEADING_WORDS = 8;
+
+/**
+ * Return the heading title if a line looks like a section heading.
+ */
+function headingTitle(line: string): string | null {
+  const trimmed = line.trim();
+  if (trimmed.length === 0 || trimmed.length > MAX_HEADING_LENGTH) return null;
+
+  const numbered = NUMBERED_HEADING.exec(trimmed);
+  const title = (numbered ? numbered[1] : trimmed).replace(/[:.]$/, '').trim();
+
+  if (KNOWN_HEADING.test(title.replace(/\s+/g, ' '))) {
+    return title;
+  }
+
+  // Numbered headings must read like a title, not a numbered sentence
+  if (
+    numbered &&
+    /^[A-Z]/.test(title) &&
+    !/[.!?,;]$/.test(numbered[1]) &&
+    title.split(/\s+/).length <= MAX_HEADING_WORDS
+  ) {
+    return title;
+  }
+
+  return null;
+}
+
+/**
+ * Detect the sections of a paper.
+ * Text before the first heading becomes a "Front Matter" section; text
+ * without any recognizable heading is a single "Full Text" section.
+ *
+ * @param text - Full paper text
+ * @returns Sections in order, covering the whole text
+ */
+export function detectSections(text: string): TextSection[] {
+  const headings: Array<{ title: string; start: number }> = [];
+
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    const title = headingTitle(line);
+    if (title) {
+      headings.push({ title, start: offset });
+    }
+    offset += line.length + 1;
+  }
+
+  if (headings.length === 0) {
+    return [{ title: 'Full Text', start: 0, end: text.length }];
+  }
+
+  const sections: TextSection[] = [];
+  if (headings[0].start > 0 && text.slice(0, headings[0].start).trim().length > 0) {
+    sections.push({ title: 'Front Matter', start: 0, end: headings[0].start });
+  }
+
+  headings.forEach((heading, i) => {
+    sections.push({
+      title: heading.title,
+      start: heading.start,
+      end: i + 1 < headings.length ? headings[i + 1].start : text.length,
+    });
+  });
+
+  return sections;
+}
+
+/**
+ * Find a good place to cut text between `min` and `max`: the last paragraph
+ * break, else the last sentence end, else the last whitespace, else `max`.
+ */
+function findBreak(text: string, min: number, max: number): number {
+  const window = text.slice(min, max);
+
+  for (const pattern of ['\n\n', '. ', '\n', ' ']) {
+    const position = window.lastIndexOf(pattern);
+    if (position >= 0) {
+      return min + position + pattern.length;
+    }
+  }
+
+  return max;
+}
+
+/**
+ * Split [start, end) into ranges of at most `maxChars`, overlapping by
+ * about `overlapChars`, without cutting words.
+ */
+function splitRange(
+  text: string,
+  start: number,
+  end: number,
+  maxChars: number,
+  overlapChars: number
+): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let position = start;
+
+  while (end - position > maxChars) {
+    const cut = findBreak(text, position + Math.floor(maxChars / 2), position + maxChars);
+    ranges.push([position, cut]);
+
+    // Step back for the overlap, then forward to the next word boundary
+    position = cut - overlapChars;
+    const space = text.indexOf(' ', position);
+    position = space >= 0 && space < cut ? space + 1 : cut;
+  }
+
+  ranges.push([position, end]);
+  return ranges;
+}
+
+/**
+ * Split a paper into extraction chunks along section boundaries.
+ * Consecutive short sections share a chunk; long sections are split.
+ *
+ * @param text - Full paper text
+ * @param options - Chunk size, overlap and excluded sections
+ * @returns Chunks in order
+ */
+export function chunkText(text: string, options: ChunkOptions): TextChunk[] {
+  const { maxChars, excludeSections } = options;
+  // Overlap must leave each piece making progress
+  const overlapChars = Math.min(options.overlapChars, Math.floor(maxChars / 4));
+
+  // Pieces of at most maxChars, each within one section
+  const pieces: Array<{ title: string; start: number; end: number }> = [];
+  for (const section of detectSections(text)) {
+    if (excludeSections?.test(section.title)) continue;
+    if (text.slice(section.start, section.end).trim().length === 0) continue;
+
+    for (const [start, end] of splitRange(text, section.start, section.end, maxChars, overlapChars)) {
+      pieces.push({ title: section.title, start, end });
+    }
+  }
+
+  // Pack adjacent pieces into chunks
+  const chunks: TextChunk[] = [];
+  let current: { sections: string[]; start: number; end: number } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    chunks.push({
+      index: chunks.length,
+      sections: current.sections,
+      start: current.start,
+      end: current.end,
+      text: text.slice(current.start, current.end),
+    });
+    current = null;
+  };
+
+  for (const piece of pieces) {
+    if (current && piece.start === current.end && piece.end - current.start <= maxChars) {
+      current.end = piece.end;
+      if (!current.sections.includes(piece.title)) {
+        current.sections.push(piece.title);
+      }
+    } else {
+      flush();
+      current = { sections: [piece.title], start: piece.start, end: piece.end };
+    }
+  }
+  flush();
+
+  return chunks;
+}
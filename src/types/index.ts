@@ -79,6 +79,20 @@ export interface Node {
   venue?: string;
 }
 
+/**
+ * Alternative surface form that resolves to a node (e.g. "3DGS" -> "3D Gaussian Splatting").
+ */
+export interface NodeAlias {
+  id: string;
+  node_id: string;             // Canonical node
+  type: NodeType;              // Node type the alias applies to
+  alias: string;               // Surface form as extracted
+  canonical_alias: string;     // Normalized alias used for lookups
+  source: string;              // Agent or process that recorded the alias
+  confidence: number;          // Confidence that the alias is correct (0-1)
+  created_at: Date;
+}
+
 /**
  * Edge entity representing a relationship between two nodes.
  */
@@ -89,13 +103,65 @@ export interface Edge {
   target_id: string;           // Node ID of target
   description?: string;        // Optional description of relationship
   evidence?: string;           // Quote or reference supporting the edge
-  confidence: number;          // Confidence score from extraction agent (0-1)
+  confidence: number;          // Confidence score (0-1); combined over edge_mentions once it has any
+  support_count: number;       // Papers asserting the edge
   extracted_by: string;        // Agent or process that created this edge
   extraction_timestamp: Date;  // When the edge was extracted
   metadata: Record<string, any>; // Arbitrary metadata
   created_at: Date;            // Timestamp for creation in DB
 }
 
+/**
+ * One paper's assertion of an edge, with its own evidence and provenance.
+ */
+export interface EdgeMention {
+  id: string;
+  edge_id: string;
+  paper_id: string;            // Paper making the claim
+  evidence?: string;           // Supporting quote from this paper
+  evidence_start?: number;     // Offsets of the evidence in the paper's full text
+  evidence_end?: number;
+  confidence: number;          // Confidence of this assertion (0-1)
+  extracted_by: string;        // Agent that extracted it
+  model?: string;              // Model that produced it
+  prompt_version?: string;     // Prompt template version that produced it
+  metadata: Record<string, any>; // Grounding, validation and ontology details
+  recorded_at: Date;
+  txid: string;                // Transaction (processing run) that recorded it
+}
+
+/**
+ * One paper's mention of a node, with its own context and provenance.
+ */
+export interface NodeMention {
+  id: string;
+  node_id: string;
+  paper_id: string;            // Paper mentioning the entity
+  name: string;                // Surface form as extracted
+  context?: string;            // Supporting text snippet from this paper
+  context_start?: number;      // Offsets of the context in the paper's full text
+  context_end?: number;
+  confidence: number;          // Confidence of this mention (0-1)
+  extracted_by: string;        // Agent that extracted it
+  model?: string;              // Model that produced it
+  prompt_version?: string;     // Prompt template version that produced it
+  metadata: Record<string, any>;
+  recorded_at: Date;
+  txid: string;                // Transaction (processing run) that recorded it
+}
+
+/**
+ * A paper's assertion of a node or edge, as compared across processing runs.
+ */
+export interface PaperAssertion {
+  id: string;                  // Node or edge ID
+  label: string;               // "name (type)" or "source -[type]-> target"
+  confidence: number;
+  evidence?: string;           // Context (nodes) or evidence quote (edges)
+  model?: string;
+  prompt_version?: string;
+}
+
 /**
  * Paper object representing a scientific publication.
  */
@@ -113,10 +179,36 @@ export interface Paper {
   pdf_path?: string;
   processing_status: 'pending' | 'processing' | 'completed' | 'failed'; // Pipeline status
   processed_at?: Date;
+  summary?: string;             // Two-line "what this paper does"
+  key_contributions?: string[];
+  limitations?: string[];
   created_at: Date;
   updated_at: Date;
 }
 
+/**
+ * A quantitative result: the value a method scores on a dataset and metric,
+ * as reported by one paper.
+ */
+export interface Result {
+  id: string;
+  paper_id: string;              // Paper reporting the number
+  method_id: string;             // Method node
+  dataset_id: string;            // Dataset node
+  metric_id: string;             // Metric node
+  value: number;
+  unit?: string;                 // e.g. "dB", "%", "FPS", "min"
+  higher_is_better?: boolean;    // Null when the paper does not make it clear
+  setting: string;               // Qualifier such as "7k iterations"; '' when none
+  evidence?: string;             // Table row or sentence the number was read from
+  evidence_start?: number;       // Offsets of the evidence in the paper's full text
+  evidence_end?: number;
+  confidence: number;
+  extracted_by: string;
+  metadata: Record<string, any>;
+  created_at: Date;
+}
+
 /**
  * Log entry for paper extraction by agents.
  */
@@ -130,9 +222,57 @@ export interface ExtractionLog {
   success: boolean;
   error_message?: string;        // Error details if extraction failed
   execution_time_ms: number;     // Duration in milliseconds
+  run_id?: string;               // Ingestion run that produced this log
+  model?: string;                // Model billed for the LLM calls
+  prompt_version?: string;       // Prompt template version used by the agent
+  input_tokens?: number;         // Prompt tokens across the stage's LLM calls
+  output_tokens?: number;        // Completion tokens across the stage's LLM calls
+  cost_usd?: number;             // Estimated cost of the stage
   timestamp: Date;
 }
 
+/**
+ * Token usage and estimated cost of one or more LLM calls.
+ */
+export interface TokenUsage {
+  calls: number;                 // Number of LLM calls
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;              // Estimated from config.llm.pricing
+  models?: string[];             // Models billed, e.g. an agent's model and its fallback
+}
+
+/**
+ * Record of a batch ingestion run.
+ */
+export interface IngestionRun {
+  id: string;
+  status: 'running' | 'completed' | 'budget_exceeded' | 'failed';
+  budget_usd?: number;           // Budget cap in effect (null = unlimited)
+  papers_total: number;
+  papers_succeeded: number;
+  papers_failed: number;
+  papers_skipped: number;        // Not scheduled because the budget was reached
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  ontology_violations: OntologyViolationCounts;
+  started_at: Date;
+  finished_at?: Date;
+}
+
+/**
+ * Saved output of one orchestrator stage for a paper, reused when the paper is processed again.
+ */
+export interface StageCheckpoint {
+  paper_id: string;
+  stage: string;
+  stage_version: string;         // Stage version the output was produced with
+  input_hash: string;            // sha256 of the paper text
+  artifacts: Record<string, any>; // Artifacts the stage wrote
+  created_at: Date;
+}
+
 // ===============================
 // Agent-related types
 // ===============================
@@ -146,6 +286,7 @@ export interface ExtractedEntity {
   description?: string;
   confidence: number;           // Confidence score (0-1)
   context?: string;             // Supporting text snippet from paper
+  aliases?: string[];           // Other surface forms normalized into this entity
   metadata?: Record<string, any>; // Optional metadata
 }
 
@@ -162,6 +303,82 @@ export interface ExtractedRelationship {
   metadata?: Record<string, any>; // Optional metadata
 }
 
+/**
+ * A quantitative result extracted from a paper (method × dataset × metric → value).
+ */
+export interface ExtractedResult {
+  method: string;               // Method entity name
+  dataset: string;              // Dataset entity name
+  metric: string;               // Metric entity name
+  value: number;
+  unit?: string;
+  higher_is_better?: boolean;
+  setting?: string;             // Qualifier distinguishing several numbers for the same triple
+  evidence?: string;            // Table row or sentence containing the number
+  confidence: number;           // Confidence score (0-1)
+  metadata?: Record<string, any>; // Optional metadata
+}
+
+/**
+ * Verdict returned by the validation agent for one relationship.
+ */
+export type RelationshipVerdictType = 'supported' | 'unsupported' | 'wrong_direction' | 'wrong_type';
+
+/**
+ * Fact-check result for an extracted relationship.
+ */
+export interface RelationshipVerdict {
+  index: number;                // Position of the relationship in the validated batch
+  verdict: RelationshipVerdictType;
+  suggested_type?: EdgeType;    // Corrected type for 'wrong_type'
+  adjusted_confidence: number;  // Validator's confidence in the (corrected) relationship (0-1)
+  rationale?: string;
+}
+
+/**
+ * Decision returned by the normalization agent for one extracted entity.
+ */
+export interface NormalizationDecision {
+  index: number;                // Position of the entity in the normalized batch
+  decision: 'new' | 'alias';
+  alias_of?: string;            // Candidate key ("N<k>" existing node, "E<k>" another new entity)
+  confidence: number;           // Confidence in the decision (0-1)
+  rationale?: string;
+}
+
+/**
+ * How the orchestrator feeds paper text to the extractors:
+ * one call with the whole (truncated) text, one call per section chunk,
+ * or chunked only when the text is too long for a single call.
+ */
+export type ExtractionMode = 'single' | 'chunked' | 'auto';
+
+/**
+ * What to do with a relationship whose endpoint types break the ontology:
+ * drop it, reverse it when the reversed edge is allowed, or additionally
+ * switch it to an alternative edge type that fits.
+ */
+export type OntologyViolationPolicy = 'reject' | 'flip' | 'retype';
+
+/**
+ * Relationships that broke the ontology, by how they were resolved.
+ */
+export interface OntologyViolationCounts {
+  flipped: number;
+  retyped: number;
+  rejected: number;
+  by_edge_type: Partial<Record<EdgeType, number>>;  // Violations per extracted edge type
+}
+
+/**
+ * Summary produced by the summarization agent.
+ */
+export interface PaperSummary {
+  summary: string;
+  key_contributions: string[];
+  limitations: string[];
+}
+
 /**
  * Aggregated analysis of a paper.
  */
@@ -172,23 +389,45 @@ export interface PaperAnalysis {
   summary?: string;             // Optional summary of the paper
   key_contributions?: string[]; // Optional key contributions
   limitations?: string[];       // Optional limitations
+  results?: ExtractedResult[];  // Quantitative results, if results extraction ran
+  usage?: TokenUsage;           // LLM usage spent on this paper
+  ontology?: OntologyViolationCounts; // Relationships that broke the ontology
 }
 
 // ===============================
 // Agent configuration types
 // ===============================
 
+/**
+ * Supported LLM providers.
+ */
+export type LLMProviderName = 'openai' | 'anthropic';
+
 /**
  * Configuration for an LLM agent.
  */
 export interface AgentConfig {
   name: string;                 // Agent name
+  provider: LLMProviderName;    // LLM provider to call
   model: string;                // LLM model to use
+  fallback_model?: string;      // Model retried on the same provider when `model` fails
   temperature: number;          // Sampling temperature
   max_tokens: number;           // Max tokens per response
   system_prompt?: string;       // Optional system prompt
 }
 
+/**
+ * Per-agent settings as written in `config.agents`. Unset provider and model
+ * fall back to `config.llm.provider` and that provider's default model.
+ */
+export interface AgentSettings {
+  provider?: LLMProviderName;
+  model?: string;
+  fallbackModel?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
 /**
  * Extraction pipeline configuration.
  */
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { planStages } from '../../src/agents/stages.js';
+import type { ArtifactName, PipelineStage } from '../../src/agents/stages.js';
+
+/**
+ * A stage that reads and writes the given artifacts and does nothing.
+ */
+function stage(name: string, inputs: ArtifactName[], outputs: ArtifactName[], enabled?: () => boolean): PipelineStage {
+  return { name, description: name, inputs, outputs, enabled, run: async () => null };
+}
+
+const registry = new Map<string, PipelineStage>(
+  [
+    stage('entities', [], ['entities']),
+    stage('relationships', ['entities'], ['relationships', 'existingPapers']),
+    stage('validate', ['entities', 'relationships'], ['entities', 'relationships']),
+    stage('results', ['entities'], ['results']),
+    stage('summary', [], ['summary']),
+    stage('fact_check', ['relationships'], ['relationships'], () => false),
+  ].map((s) => [s.name, s])
+);
+
+/**
+ * Stage names of each group of a plan.
+ */
+function names(plan: PipelineStage[][]): string[][] {
+  return plan.map((group) => group.map((s) => s.name));
+}
+
+test('steps become groups in order, and nested steps run in parallel', () => {
+  const plan = planStages(['entities', 'relationships', 'validate', ['results', 'summary']], registry);
+
+  assert.deepEqual(names(plan), [['entities'], ['relationships'], ['validate'], ['results', 'summary']]);
+});
+
+test('disabled stages are left out, along with groups left empty', () => {
+  const plan = planStages(['entities', 'relationships', ['fact_check'], 'validate'], registry);
+
+  assert.deepEqual(names(plan), [['entities'], ['relationships'], ['validate']]);
+});
+
+test('an unknown stage is rejected', () => {
+  assert.throws(() => planStages(['entities', 'grounding'], registry), /Unknown pipeline stage: grounding/);
+});
+
+test('a stage cannot run before the artifacts it reads exist', () => {
+  assert.throws(
+    () => planStages(['relationships', 'entities'], registry),
+    /Pipeline stage relationships needs entities, which no earlier stage produces/
+  );
+});
+
+test('stages that share artifacts cannot run in parallel', () => {
+  assert.throws(
+    () => planStages([['entities', 'results']], registry),
+    /Pipeline stages entities and results cannot run in parallel: both use entities/
+  );
+  assert.throws(
+    () => planStages(['entities', 'relationships', ['validate', 'results']], registry),
+    /Pipeline stages validate and results cannot run in parallel: both use entities/
+  );
+});
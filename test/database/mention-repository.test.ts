@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { combineConfidence } from '../../src/database/repositories/mention-repository.js';
+
+/**
+ * Compare floating-point confidences to within rounding error.
+ */
+function assertClose(actual: number, expected: number): void {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+}
+
+test('a single paper keeps its own confidence', () => {
+  assertClose(combineConfidence([0.7]), 0.7);
+});
+
+test('agreeing papers raise the confidence as independent evidence', () => {
+  assertClose(combineConfidence([0.5, 0.5]), 0.75);
+  assertClose(combineConfidence([0.8, 0.6, 0.5]), 1 - 0.2 * 0.4 * 0.5);
+});
+
+test('a weak paper never lowers the confidence', () => {
+  assert.ok(combineConfidence([0.9, 0.1]) >= 0.9);
+  assertClose(combineConfidence([0.9, 0]), 0.9);
+});
+
+test('certain papers, out-of-range values and no papers', () => {
+  assert.equal(combineConfidence([0.4, 1]), 1);
+  assert.equal(combineConfidence([1.5]), 1);
+  assertClose(combineConfidence([-0.2, 0.5]), 0.5);
+  assert.equal(combineConfidence([]), 0);
+});
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchPaper, toScore } from '../../src/evaluation/scoring.js';
+import { buildReport, renderMarkdown } from '../../src/evaluation/report.js';
+import type { EvaluationSettings } from '../../src/evaluation/report.js';
+import type { GoldPaper } from '../../src/evaluation/gold.js';
+
+const gold: GoldPaper = {
+  id: '3dgs',
+  title: '3D Gaussian Splatting for Real-Time Radiance Field Rendering',
+  authors: [],
+  full_text: '3D Gaussian Splatting is compared with NeRF on Mip-NeRF 360.',
+  entities: [
+    { name: '3D Gaussian Splatting', type: 'method', aliases: ['3DGS'] },
+    { name: 'NeRF', type: 'method', aliases: ['Neural Radiance Fields'] },
+    { name: 'Mip-NeRF 360', type: 'dataset', aliases: [] },
+  ],
+  relationships: [
+    { source: '3D Gaussian Splatting', target: 'NeRF', type: 'compares_with' },
+    { source: '3D Gaussian Splatting', target: 'Mip-NeRF 360', type: 'evaluates' },
+  ],
+};
+
+const settings: EvaluationSettings = { extraction_mode: 'single', stages: [], cassette_mode: 'off', agents: {} };
+
+test('precision, recall and F1 follow from the counts', () => {
+  const score = toScore({ tp: 3, fp: 1, fn: 3 });
+
+  assert.equal(score.precision, 0.75);
+  assert.equal(score.recall, 0.5);
+  assert.equal(score.f1, 0.6);
+});
+
+test('empty denominators score n/a instead of a perfect score', () => {
+  assert.deepEqual(toScore({ tp: 0, fp: 0, fn: 0 }), { tp: 0, fp: 0, fn: 0, precision: null, recall: null, f1: null });
+  assert.deepEqual(toScore({ tp: 0, fp: 0, fn: 2 }), { tp: 0, fp: 0, fn: 2, precision: null, recall: 0, f1: 0 });
+  assert.deepEqual(toScore({ tp: 0, fp: 2, fn: 0 }), { tp: 0, fp: 2, fn: 0, precision: 0, recall: null, f1: 0 });
+});
+
+test('aliases match the gold entity, and only with the gold type', () => {
+  const match = matchPaper(
+    gold,
+    [
+      { name: '3DGS', type: 'method', confidence: 0.9 },
+      { name: 'neural radiance fields', type: 'method', confidence: 0.8 },
+      { name: 'Mip-NeRF 360', type: 'metric', confidence: 0.7 },
+    ],
+    []
+  );
+
+  assert.deepEqual(match.entities.overall, { tp: 2, fp: 1, fn: 1 });
+  assert.deepEqual(match.entity_names, { tp: 3, fp: 0, fn: 0 });
+  assert.deepEqual(match.spurious_entities, ['Mip-NeRF 360 (metric)']);
+  assert.deepEqual(match.missed_entities, ['Mip-NeRF 360 (dataset)']);
+});
+
+test('relationship endpoints resolve through aliases, and symmetric types match reversed', () => {
+  const match = matchPaper(gold, [], [
+    { source: 'NeRF', target: '3DGS', type: 'compares_with', confidence: 0.9 },
+    { source: 'Mip-NeRF 360', target: '3DGS', type: 'evaluates', confidence: 0.9 },
+  ]);
+
+  assert.deepEqual(match.relationships.overall, { tp: 1, fp: 1, fn: 1 });
+  assert.deepEqual(match.missed_relationships, ['3D Gaussian Splatting -[evaluates]-> Mip-NeRF 360']);
+});
+
+test('a failed paper counts its gold items as missed', () => {
+  const report = buildReport('sample', [
+    { id: gold.id, title: gold.title, match: matchPaper(gold, [], []), error: 'rate limited' },
+  ], settings);
+
+  assert.deepEqual(report.entities.overall, { tp: 0, fp: 0, fn: 3, precision: null, recall: 0, f1: 0 });
+  assert.deepEqual(report.relationships.overall, { tp: 0, fp: 0, fn: 2, precision: null, recall: 0, f1: 0 });
+
+  const markdown = renderMarkdown(report);
+  assert.match(markdown, /\| \*\*all \(typed\)\*\* \| n\/a \| 0\.000 \| 0\.000 \| 0 \| 0 \| 3 \|/);
+  assert.match(markdown, /\| 3dgs \| failed: rate limited \|/);
+});
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CassetteMissError, CassetteProvider, cassetteKey } from '../../src/llm/cassette.js';
+import type { LLMProvider, LLMRequest, LLMResponse } from '../../src/llm/provider.js';
+
+const request: LLMRequest = {
+  model: 'gpt-4o-mini',
+  messages: [
+    { role: 'system', content: 'Extract entities.' },
+    { role: 'user', content: '3D Gaussian Splatting renders in real time.' },
+  ],
+  temperature: 0,
+  max_tokens: 1024,
+  json_mode: true,
+};
+
+/**
+ * Provider that answers every request with the same response and counts calls.
+ */
+function fakeProvider(response: LLMResponse): LLMProvider & { calls: number } {
+  return {
+    name: 'openai',
+    capabilities: { jsonMode: true },
+    calls: 0,
+    async complete() {
+      this.calls++;
+      return response;
+    },
+  };
+}
+
+async function withCassetteDir(run: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await mkdtemp(join(tmpdir(), 'cassettes-'));
+  try {
+    await run(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+test('a recorded completion replays without calling the provider', async () => {
+  await withCassetteDir(async (dir) => {
+    const response: LLMResponse = { content: '{"entities":[]}', model: 'gpt-4o-mini', usage: { input_tokens: 12, output_tokens: 4 } };
+    const live = fakeProvider(response);
+
+    assert.deepEqual(await new CassetteProvider(live, 'record', dir).complete(request), response);
+    assert.equal(live.calls, 1);
+    assert.deepEqual(await readdir(dir), [`${cassetteKey(request, 'openai')}.json`]);
+
+    const offline = fakeProvider({ content: 'not recorded' });
+    assert.deepEqual(await new CassetteProvider(offline, 'replay', dir).complete(request), response);
+    assert.equal(offline.calls, 0);
+  });
+});
+
+test('replaying a request that was never recorded fails instead of calling the provider', async () => {
+  await withCassetteDir(async (dir) => {
+    const live = fakeProvider({ content: '{}' });
+    const replay = new CassetteProvider(live, 'replay', dir);
+
+    await assert.rejects(replay.complete(request), (error: unknown) => {
+      assert.ok(error instanceof CassetteMissError);
+      assert.equal(error.key, cassetteKey(request, 'openai'));
+      return true;
+    });
+    assert.equal(live.calls, 0);
+  });
+});
+
+test('the cassette key is stable for the same request', () => {
+  // Changing this digest invalidates every recorded cassette
+  assert.equal(cassetteKey(request, 'openai'), '56055ccd9b4922af85c971cfd7d1e0276a9d8f1b42908b113064537367de0a1c');
+  assert.equal(cassetteKey({ ...request, messages: [...request.messages] }, 'openai'), cassetteKey(request, 'openai'));
+});
+
+test('the cassette key separates providers, prompts, sampling options and samples', () => {
+  const key = cassetteKey(request, 'openai');
+
+  assert.notEqual(cassetteKey(request, 'anthropic'), key);
+  assert.notEqual(cassetteKey({ ...request, model: 'gpt-4o' }, 'openai'), key);
+  assert.notEqual(cassetteKey({ ...request, messages: [request.messages[0]] }, 'openai'), key);
+  assert.notEqual(cassetteKey({ ...request, temperature: 0.7 }, 'openai'), key);
+  assert.notEqual(cassetteKey({ ...request, sample: 1 }, 'openai'), key);
+});
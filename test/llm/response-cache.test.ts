@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../../src/config/index.js';
+import { ResponseCache } from '../../src/llm/response-cache.js';
+import type { LLMRequest } from '../../src/llm/provider.js';
+
+const request: LLMRequest = {
+  model: 'gpt-4o-mini',
+  messages: [{ role: 'user', content: 'Extract entities.' }],
+  temperature: 0,
+  max_tokens: 1024,
+};
+
+test('the cache key names the provider', () => {
+  const cache = new ResponseCache();
+
+  assert.notEqual(cache.keyFor(request, 'v1', 'openai').cacheKey, cache.keyFor(request, 'v1', 'anthropic').cacheKey);
+  assert.equal(cache.keyFor(request, 'v1', 'anthropic').provider, 'anthropic');
+});
+
+test('the cache key follows model aliases and the base URL', () => {
+  const cache = new ResponseCache();
+  const { openai } = config.llm;
+  const before = cache.keyFor(request, 'v1', 'openai');
+
+  openai.modelAliases['gpt-4o-mini'] = 'llama-3-70b-instruct';
+  try {
+    const aliased = cache.keyFor(request, 'v1', 'openai');
+    assert.equal(aliased.model, 'llama-3-70b-instruct');
+    assert.notEqual(aliased.cacheKey, before.cacheKey);
+    // Aliases only apply to OpenAI-compatible backends
+    assert.equal(cache.keyFor(request, 'v1', 'anthropic').model, 'gpt-4o-mini');
+  } finally {
+    delete openai.modelAliases['gpt-4o-mini'];
+  }
+
+  const baseURL = openai.baseURL;
+  (openai as { baseURL?: string }).baseURL = 'http://localhost:8000/v1';
+  try {
+    const local = cache.keyFor(request, 'v1', 'openai');
+    assert.equal(local.baseURL, 'http://localhost:8000/v1');
+    assert.notEqual(local.cacheKey, before.cacheKey);
+  } finally {
+    (openai as { baseURL?: string }).baseURL = baseURL;
+  }
+});
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../../src/config/index.js';
+import { servedModelFor, usageFromResponse } from '../../src/llm/index.js';
+
+const usage = { input_tokens: 1_000_000, output_tokens: 1_000_000 };
+
+test('a call is priced by the model the provider reports', () => {
+  const record = usageFromResponse('gpt-4o-mini', { content: '{}', model: 'gpt-4o', usage });
+
+  assert.equal(record.cost_usd, 20);
+  assert.deepEqual(record.models, ['gpt-4o']);
+});
+
+test('a reported model without a price falls back to the model the call was sent to', () => {
+  const record = usageFromResponse('gpt-4o-mini', { content: '{}', model: 'gpt-4o-mini-2024-07-18', usage });
+
+  assert.equal(record.cost_usd, 0.75);
+  assert.deepEqual(record.models, ['gpt-4o-mini']);
+});
+
+test('cached responses cost nothing', () => {
+  assert.equal(usageFromResponse('gpt-4o', { content: '{}', model: 'gpt-4o', usage, cached: true }).cost_usd, 0);
+});
+
+test('OpenAI model aliases resolve to the served model', () => {
+  config.llm.openai.modelAliases['fast'] = 'gpt-4o-mini';
+  try {
+    assert.equal(servedModelFor('openai', 'fast'), 'gpt-4o-mini');
+    assert.equal(servedModelFor('anthropic', 'fast'), 'fast');
+    assert.equal(servedModelFor('openai', 'gpt-4o'), 'gpt-4o');
+  } finally {
+    delete config.llm.openai.modelAliases['fast'];
+  }
+});